@@ -21,3 +21,33 @@ export class DuplicateChecker<T> {
     return this.seen.size;
   }
 }
+
+/**
+ * Tracks combinations of values for multi-column unique keys.
+ * Refs are compared by the row and column they point to.
+ */
+export class CompositeDuplicateChecker {
+  private checker = new DuplicateChecker<string>();
+
+  add(values: unknown[]): boolean {
+    return this.checker.add(this.toKey(values));
+  }
+
+  search(values: unknown[]): boolean {
+    return this.checker.search(this.toKey(values));
+  }
+
+  clear(): void {
+    this.checker.clear();
+  }
+
+  get size(): number {
+    return this.checker.size;
+  }
+
+  private toKey(values: unknown[]): string {
+    return JSON.stringify(values, (_, value) =>
+      typeof value === "bigint" ? `${value.toString()}n` : value,
+    );
+  }
+}
@@ -1 +1,44 @@
-export { type Faker, faker } from "@faker-js/faker";
+import { base, en, Faker, type LocaleDefinition } from "@faker-js/faker";
+
+export { type Faker, type LocaleDefinition, faker } from "@faker-js/faker";
+
+/**
+ * Creates a faker instance of its own, definitions missing in `locale` fall back to english.
+ * Dates are generated around `referenceDate`, the current time by default
+ */
+export const createFaker = (
+  locale: LocaleDefinition | LocaleDefinition[] = [],
+  referenceDate?: Date,
+): Faker => {
+  const faker = new Faker({ locale: [...[locale].flat(), en, base] });
+  if (referenceDate) faker.setDefaultRefDate(referenceDate);
+  return faker;
+};
+
+/**
+ * Derives a seed from `seed` and `keys` (FNV-1a), so every key draws from a stream of its own
+ */
+export const deriveSeed = (seed: number, ...keys: Array<string | number>): number => {
+  const input = [seed, ...keys].join("\u0000");
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < input.length; ++i) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Dates `past` years before and `future` years after `referenceDate`
+ */
+export const getDateWindow = (
+  referenceDate: Date,
+  window: { past?: number; future?: number } | undefined,
+): { from: Date; to: Date } | undefined =>
+  window && {
+    from: new Date(referenceDate.getTime() - (window.past ?? 0) * YEAR_MS),
+    to: new Date(referenceDate.getTime() + (window.future ?? 0) * YEAR_MS),
+  };
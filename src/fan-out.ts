@@ -0,0 +1,91 @@
+import { en, Faker } from "@faker-js/faker";
+import { deriveSeed } from "./faker";
+
+export type getFanOutCount<tableKey> =
+  | {
+      // rows are generated per row of this table
+      per: tableKey;
+      min?: number;
+      max: number;
+    }
+  | {
+      per: tableKey;
+      // row count of a single parent row
+      distribution: (parent: { index: number; faker: Faker }) => number;
+    };
+
+export const isFanOutCount = (count: unknown): count is getFanOutCount<string> =>
+  typeof count === "object" && count !== null && "per" in count;
+
+export type TableCounts = {
+  counts: Record<string, number>;
+  // row count under every parent row of tables with a fan-out count
+  parentCounts: Map<string, number[]>;
+};
+
+/**
+ * Resolves row counts of every table, fan-out counts are drawn per parent row.
+ * Draws use a faker of their own, so they don't shift values of generated columns.
+ * With `perTable`, every table draws from a faker seeded by its key, unaffected by other tables.
+ */
+export const getTableCounts = (
+  tableOrder: readonly string[],
+  getCount: (tableKey: string) => number | getFanOutCount<string> | undefined,
+  seed: number,
+  perTable = false,
+): TableCounts => {
+  const countFaker = new Faker({ locale: en, seed });
+  const counts: Record<string, number> = {};
+  const parentCounts = new Map<string, number[]>();
+  const resolving = new Set<string>();
+
+  const resolve = (tableKey: string): number => {
+    if (tableKey in counts) return counts[tableKey]!;
+
+    const count = getCount(tableKey);
+    if (!isFanOutCount(count)) {
+      counts[tableKey] = count ?? 50;
+      return counts[tableKey];
+    }
+
+    if (!tableOrder.includes(count.per)) {
+      throw new Error(
+        `Table "${tableKey}" is counted per "${count.per}" rows, which aren't generated`,
+      );
+    }
+    if (resolving.has(tableKey)) {
+      throw new Error(
+        `Table "${tableKey}" is counted per rows of a table counted per its own rows`,
+      );
+    }
+
+    resolving.add(tableKey);
+    const parentCount = resolve(count.per);
+    resolving.delete(tableKey);
+
+    const tableFaker = perTable
+      ? new Faker({ locale: en, seed: deriveSeed(seed, tableKey, "count") })
+      : countFaker;
+    const rowCounts = Array.from({ length: parentCount }, (_, index) => {
+      const rowCount =
+        "distribution" in count
+          ? count.distribution({ index, faker: tableFaker })
+          : tableFaker.number.int({ min: count.min ?? 0, max: count.max });
+
+      if (!Number.isInteger(rowCount) || rowCount < 0) {
+        throw new Error(
+          `Row count of "${tableKey}" per "${count.per}" row has to be a non-negative integer, got ${rowCount}`,
+        );
+      }
+      return rowCount;
+    });
+
+    parentCounts.set(tableKey, rowCounts);
+    counts[tableKey] = rowCounts.reduce((sum, rowCount) => sum + rowCount, 0);
+    return counts[tableKey];
+  };
+
+  for (const tableKey of tableOrder) resolve(tableKey);
+
+  return { counts, parentCounts };
+};
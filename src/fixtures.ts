@@ -0,0 +1,165 @@
+import { mkdirSync } from "fs";
+import { join } from "path";
+import { Column, getTableColumns, is, Param, SQL, type Table } from "drizzle-orm";
+import { createRecordingDb, createStreamWriter } from "./recording-db";
+import type { SchemaExport } from "./shared";
+
+export type FixtureFormat = "json" | "ndjson" | "csv";
+
+export type FixtureOptions = {
+  /**
+   * Directory the fixtures are written to, one `<table key>.<format>` file per table
+   */
+  dir: string;
+  /**
+   * "json" by default
+   */
+  format?: FixtureFormat;
+};
+
+// bigints and buffers have no JSON representation, dates keep their ISO form
+function replaceFixtureValue(this: any, key: string, value: unknown) {
+  const raw = this[key];
+  if (typeof raw === "bigint") return raw.toString();
+  if (raw instanceof Uint8Array) return Buffer.from(raw).toString("base64");
+  return value;
+}
+
+export const stringifyFixtureValue = (value: unknown) => JSON.stringify(value, replaceFixtureValue);
+
+const toCsvField = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const json = typeof value === "string" ? null : stringifyFixtureValue(value);
+  // dates, bigints and buffers end up as JSON strings, CSV fields don't need their quotes
+  const text = json === null ? (value as string) : json.startsWith('"') ? JSON.parse(json) : json;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+type TableFile = {
+  writer: ReturnType<typeof createStreamWriter>;
+  columnKeys: string[];
+  rowCount: number;
+};
+
+// column and value pairs of the `column = value` conditions in `where`
+const getConditionValues = (where: SQL): Array<[Column, unknown]> => {
+  const pairs: Array<[Column, unknown]> = [];
+  const chunks = where.queryChunks;
+
+  chunks.forEach((chunk, i) => {
+    if (is(chunk, SQL)) pairs.push(...getConditionValues(chunk));
+    if (!is(chunk, Column)) return;
+
+    const param = chunks.slice(i + 1).find((next) => is(next, Param) || is(next, Column));
+    if (is(param, Param)) pairs.push([chunk, param.value]);
+  });
+
+  return pairs;
+};
+
+/**
+ * Creates a database writing inserted rows to fixture files instead of executing inserts.
+ * Rows of `heldTableKeys` are kept in memory and written on `close`, so updates filling their
+ * deferred columns end up in the fixtures.
+ */
+export const createFixtureWriter = (
+  schema: SchemaExport,
+  options: FixtureOptions,
+  heldTableKeys: string[] = [],
+) => {
+  const format = options.format ?? "json";
+  const tableKeys = new Map(Object.entries(schema).map(([key, table]) => [table as Table, key]));
+  const files = new Map<Table, TableFile>();
+  const heldRows = new Map(
+    heldTableKeys.map((tableKey) => [schema[tableKey] as Table, [] as Record<string, unknown>[]]),
+  );
+  // held rows by the values of the columns updates are matched on, built on the first update
+  const heldRowIndexes = new Map<Table, Map<string, Record<string, unknown>>>();
+
+  mkdirSync(options.dir, { recursive: true });
+
+  const getFile = (table: Table, rows: Record<string, unknown>[]) => {
+    let file = files.get(table);
+
+    if (!file) {
+      file = {
+        writer: createStreamWriter(join(options.dir, `${tableKeys.get(table)}.${format}`)),
+        columnKeys: Array.from(new Set(rows.flatMap((row) => Object.keys(row)))),
+        rowCount: 0,
+      };
+      files.set(table, file);
+    }
+
+    return file;
+  };
+
+  const writeRows = async (table: Table, rows: Record<string, unknown>[]) => {
+    if (rows.length === 0) return;
+
+    const file = getFile(table, rows);
+    let chunk: string;
+
+    if (format === "ndjson") {
+      chunk = rows.map((row) => `${stringifyFixtureValue(row)}\n`).join("");
+    } else if (format === "csv") {
+      const header = file.rowCount === 0 ? `${file.columnKeys.join(",")}\n` : "";
+      chunk =
+        header +
+        rows
+          .map((row) => `${file.columnKeys.map((key) => toCsvField(row[key])).join(",")}\n`)
+          .join("");
+    } else {
+      const prefix = file.rowCount === 0 ? "[\n  " : ",\n  ";
+      chunk = prefix + rows.map((row) => stringifyFixtureValue(row)).join(",\n  ");
+    }
+
+    file.rowCount += rows.length;
+    await file.writer.write(chunk);
+  };
+
+  const record = async (table: Table, rows: Record<string, unknown>[]) => {
+    const held = heldRows.get(table);
+    if (held) held.push(...rows);
+    else await writeRows(table, rows);
+  };
+
+  // rows are matched by the primary key values of the update's conditions
+  const recordUpdate = async (table: Table, values: Record<string, unknown>, where: SQL) => {
+    const columnKeys = new Map(
+      Object.entries(getTableColumns(table)).map(([columnKey, column]) => [column, columnKey]),
+    );
+    const conditions = getConditionValues(where);
+    const conditionKeys = conditions.map(([column]) => columnKeys.get(column)!);
+
+    let index = heldRowIndexes.get(table);
+    if (!index) {
+      index = new Map(
+        (heldRows.get(table) ?? []).map((heldRow) => [
+          stringifyFixtureValue(conditionKeys.map((columnKey) => heldRow[columnKey])),
+          heldRow,
+        ]),
+      );
+      heldRowIndexes.set(table, index);
+    }
+    const row = index.get(stringifyFixtureValue(conditions.map(([, value]) => value)));
+
+    if (!row) {
+      throw new Error(`Updated row of "${tableKeys.get(table)}" isn't held by the fixture writer`);
+    }
+    Object.assign(row, values);
+  };
+
+  const close = async () => {
+    for (const [table, rows] of heldRows) await writeRows(table, rows);
+
+    for (const file of files.values()) {
+      if (format === "json") await file.writer.write("\n]\n");
+      await file.writer.close();
+    }
+  };
+
+  return {
+    db: createRecordingDb(record, (table) => `"${tableKeys.get(table)}"`, recordUpdate),
+    close,
+  };
+};
@@ -0,0 +1,487 @@
+import type { Table } from "drizzle-orm";
+import { CompositeDuplicateChecker, DuplicateChecker } from "./duplicate-checker";
+import type { SchemaExport, getTablesFromSchemaExport, inferColumnType } from "./shared";
+import { RefinedGenerator, type BaseGenerator } from "./generators";
+import { createFaker, deriveSeed, getDateWindow, type Faker, type LocaleDefinition } from "./faker";
+import {
+  getColumnNameToTsKeyMap,
+  getForeignKeyReferences,
+  getPrimaryKeyColumnKeys,
+  getUniqueKeys,
+  type ForeignKeyReference,
+} from "./helpers";
+import { sortTablesByDependencies } from "./table-order";
+import type { RefineConfigLayer } from "./refine-config";
+import { getTableCounts, type getFanOutCount } from "./fan-out";
+import { createRefProxy } from "./ref-proxy";
+import {
+  generatedAsPlaceholder,
+  isDatabaseDefaultPlaceholder,
+  isGeneratedAsPlaceholder,
+  type ColumnValueReference,
+  type DatabaseDefaultPlaceholder,
+  type GeneratedAsPlaceholder,
+} from "./placeholders";
+
+export type getGenerateOptions<
+  schema extends SchemaExport,
+  tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+> = {
+  /**
+   * Order in which tables are generated, defaults to all schema tables sorted by their foreign keys
+   */
+  tableOrder?: tableOrder;
+  seed?: number;
+  /**
+   * Faker locale of generated values, definitions missing in it fall back to english
+   */
+  locale?: LocaleDefinition | LocaleDefinition[];
+  /**
+   * How values are drawn from `seed`:
+   * - `"sequential"` - a single stream, any change shifts values of every later table (default)
+   * - `"per-column"` - a stream per table column, changes only shift values of the columns they touch
+   * - `"per-row"` - a stream per table row, changes only shift values of the rows they touch
+   */
+  seeding?: "sequential" | "per-column" | "per-row";
+  /**
+   * Reference point of generated dates, the time of iteration by default
+   */
+  referenceDate?: Date | string | number;
+  /**
+   * Years before and after `referenceDate` built-in date and timestamp generators draw from,
+   * e.g. `{ past: 2 }` for the last 2 years. Faker's defaults of the column type when omitted
+   */
+  dateWindow?: { past?: number; future?: number };
+  generator?: BaseGenerator;
+};
+
+export type inferGeneratorStreamChunk<
+  schema extends SchemaExport,
+  tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+> = {
+  [tableKey in tableOrder[number]]: {
+    [columnKey in keyof schema[tableKey]["_"]["columns"]]:
+      | inferColumnType<schema[tableKey][columnKey]>
+      | ColumnValueReference<inferColumnType<schema[tableKey][columnKey]>>
+      | GeneratedAsPlaceholder
+      | DatabaseDefaultPlaceholder;
+  } & {
+    _tag: tableKey;
+  };
+}[tableOrder[number]];
+
+type GeneratorTableConfig = Parameters<typeof getUniqueKeys>[0] &
+  Parameters<typeof getPrimaryKeyColumnKeys>[1] & {
+    foreignKeys: Parameters<typeof getForeignKeyReferences>[2];
+  };
+
+export type GeneratorDialect = {
+  isTable: (value: unknown) => boolean;
+  getTableConfig: (table: Table) => GeneratorTableConfig;
+  // generates columns no refinement covers
+  defaultGenerator: BaseGenerator;
+};
+
+// fields of dialect table refine configs read while generating
+type TableRefinements = {
+  count?: number | getFanOutCount<string>;
+  columnOrder?: readonly string[];
+  locale?: LocaleDefinition | LocaleDefinition[];
+  rows?: Record<string, unknown>[];
+};
+
+const getTableForeignKeyReferences = (
+  dialect: GeneratorDialect,
+  schema: SchemaExport,
+  tableKey: string,
+) =>
+  getForeignKeyReferences(
+    schema,
+    schema[tableKey],
+    dialect.getTableConfig(schema[tableKey]).foreignKeys,
+  );
+
+const MAX_UNIQUE_TRIES = 5000;
+
+const isNullableReference = (
+  schema: SchemaExport,
+  tableKey: string,
+  reference: ForeignKeyReference,
+) => reference.columnKeys.every((columnKey) => !schema[tableKey][columnKey].notNull);
+
+const inferTableOrder = (dialect: GeneratorDialect, schema: SchemaExport): string[] => {
+  const tableKeys = Object.keys(schema).filter((key) => dialect.isTable(schema[key]));
+  const references = new Map(
+    tableKeys.map((tableKey) => [
+      tableKey,
+      getTableForeignKeyReferences(dialect, schema, tableKey),
+    ]),
+  );
+
+  const dependencies = new Map(
+    tableKeys.map((tableKey) => [
+      tableKey,
+      new Set(references.get(tableKey)!.map((reference) => reference.refTableKey)),
+    ]),
+  );
+
+  // tables only referenced through nullable foreign keys can be referenced before they're seeded
+  const weakDependencies = new Map(
+    tableKeys.map((tableKey) => [
+      tableKey,
+      new Set(
+        Array.from(dependencies.get(tableKey)!).filter((refTableKey) =>
+          references
+            .get(tableKey)!
+            .filter((reference) => reference.refTableKey === refTableKey)
+            .every((reference) => isNullableReference(schema, tableKey, reference)),
+        ),
+      ),
+    ]),
+  );
+
+  return sortTablesByDependencies(dependencies, weakDependencies);
+};
+
+/**
+ * Generates rows of a schema, table by table. Dialect generators only differ in their `dialect`
+ * and in the refine config types, `refine` is left to them to return their own class.
+ */
+export abstract class SchemaGenerator<
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refineConfig extends RefineConfigLayer,
+> {
+  protected config: refineConfig | null = null;
+  private existingCounts: Record<string, number> = {};
+
+  constructor(
+    protected schema: schema,
+    protected generateOptions: getGenerateOptions<schema, tableOrder>,
+    protected dialect: GeneratorDialect,
+  ) {}
+
+  *[Symbol.iterator](): Generator<inferGeneratorStreamChunk<schema, tableOrder>, any, any> {
+    const {
+      seed = 0,
+      seeding = "sequential",
+      generator: baseGenerator = this.dialect.defaultGenerator,
+    } = this.generateOptions;
+    const generator = this.config
+      ? baseGenerator.extend(new RefinedGenerator(this.config))
+      : baseGenerator;
+
+    const referenceDate = new Date(this.generateOptions.referenceDate ?? Date.now());
+    if (Number.isNaN(referenceDate.getTime())) {
+      throw new Error(`Invalid referenceDate: ${String(this.generateOptions.referenceDate)}`);
+    }
+    const dateWindow = getDateWindow(referenceDate, this.generateOptions.dateWindow);
+
+    // a faker of the generator's own, so other generators and user code can't shift its values
+    const faker = createFaker(this.generateOptions.locale, referenceDate);
+    faker.seed(seed);
+
+    const localeFakers = new Map<LocaleDefinition | LocaleDefinition[], Faker>();
+    // tables of the same locale share a faker
+    const getLocaleFaker = (locale: LocaleDefinition | LocaleDefinition[]) => {
+      let localeFaker = localeFakers.get(locale);
+      if (!localeFaker) {
+        localeFaker = createFaker(locale, referenceDate);
+        localeFaker.seed(seed);
+        localeFakers.set(locale, localeFaker);
+      }
+      return localeFaker;
+    };
+    const tablesOrder = new Set(this.getTableOrder());
+    const inputSchema = this.schema;
+
+    const { counts, parentCounts } = this.resolveCounts();
+    let rowIndex = 0;
+    let columnFaker = faker;
+    const refProxy = createRefProxy({
+      counts,
+      getFaker: () => columnFaker,
+      getIndex: () => rowIndex,
+    }) as Record<string, Record<number, any>>;
+
+    for (const tableKey of tablesOrder) {
+      if (this.isExisting(tableKey as string)) continue;
+
+      const table = inputSchema[tableKey];
+      const columnNameToTsKey = getColumnNameToTsKeyMap(table);
+      const tableConf = this.dialect.getTableConfig(table);
+      const tableRefinements = this.getTableRefinements(tableKey as string);
+
+      const tableLocale = tableRefinements?.locale ?? this.generateOptions.locale;
+      const tableFaker =
+        seeding !== "sequential"
+          ? createFaker(tableLocale, referenceDate)
+          : tableRefinements?.locale
+            ? getLocaleFaker(tableRefinements.locale)
+            : faker;
+      const columnFakers = new Map<string, Faker>();
+      const getColumnFaker = (columnKey: string) => {
+        if (seeding !== "per-column") return tableFaker;
+
+        let keyFaker = columnFakers.get(columnKey);
+        if (!keyFaker) {
+          keyFaker = createFaker(tableLocale, referenceDate);
+          keyFaker.seed(deriveSeed(seed, tableKey as string, columnKey));
+          columnFakers.set(columnKey, keyFaker);
+        }
+        return keyFaker;
+      };
+
+      const columnOrder = new Set([
+        ...(tableRefinements?.columnOrder?.map(
+          (columnKey) => inputSchema[tableKey][columnKey].name,
+        ) ?? []),
+        ...tableConf.columns.map((col) => col.name),
+      ]) as Set<string>;
+
+      const count = counts[tableKey as string]!;
+      const literalRows = (tableRefinements?.rows ?? []) as Record<string, unknown>[];
+
+      if (literalRows.length > count) {
+        throw new Error(
+          `Table "${tableKey as string}" has ${literalRows.length} literal rows, more than its count of ${count}`,
+        );
+      }
+
+      const uniqueKeys = getUniqueKeys(tableConf);
+
+      const duplicateCheckers: Record<string, DuplicateChecker<unknown>> = uniqueKeys
+        .filter((key) => key.length === 1)
+        .reduce((acc, [columnName]) => ({ ...acc, [columnName!]: new DuplicateChecker() }), {});
+
+      // keys containing a unique column can't repeat anyway
+      const compositeKeys = uniqueKeys
+        .filter(
+          (key) => key.length > 1 && key.every((columnName) => !duplicateCheckers[columnName]),
+        )
+        .map((columnNames) => ({
+          columnNames,
+          duplicateChecker: new CompositeDuplicateChecker(),
+        }));
+
+      const fanOut = tableRefinements?.count as getFanOutCount<string> | undefined;
+      // parent row index of every row, counted per parent row
+      const parentIndices = parentCounts
+        .get(tableKey as string)
+        ?.flatMap((rowCount, parentIndex) => Array<number>(rowCount).fill(parentIndex));
+
+      for (let index = 0; index < count; ++index) {
+        rowIndex = index;
+        if (seeding === "per-row") {
+          tableFaker.seed(deriveSeed(seed, tableKey as string, index));
+        }
+        const parent = parentIndices && {
+          tableKey: fanOut!.per,
+          index: parentIndices[index]!,
+          ref: refProxy[fanOut!.per]![parentIndices[index]!],
+        };
+        const self: Record<string, any> = {
+          _tag: tableKey,
+        };
+        const literalRow = literalRows[index];
+
+        // literal unique values are taken before generated rows could take them
+        for (const [columnName, duplicateChecker] of Object.entries(duplicateCheckers)) {
+          const value = literalRow?.[columnNameToTsKey[columnName]!];
+          if (value === undefined || value === null) continue;
+
+          if (!duplicateChecker.add(value)) {
+            throw new Error(
+              `Literal rows of "${tableKey as string}" repeat the value of unique column "${columnName}"`,
+            );
+          }
+        }
+
+        const generateColumn = (columnName: string) => {
+          const columnTsKey = columnNameToTsKey[columnName]!;
+          const columnConfig = tableConf.columns.find((col) => col.name === columnName);
+
+          if (columnConfig?.generated) {
+            self[columnTsKey] = generatedAsPlaceholder();
+            return;
+          }
+
+          if (!columnConfig) throw new Error(`No column config found for ${columnName}`);
+
+          if (literalRow && columnTsKey in literalRow) {
+            self[columnTsKey] = literalRow[columnTsKey];
+            return;
+          }
+
+          columnFaker = getColumnFaker(columnTsKey);
+          const ctx = {
+            index,
+            count,
+            counts,
+            schema: inputSchema,
+            faker: columnFaker,
+            referenceDate,
+            dateWindow,
+            columnDef: columnConfig,
+            self,
+            duplicateChecker: duplicateCheckers[columnName],
+            tableKey: tableKey as string,
+            columnKey: columnTsKey,
+            ref: refProxy,
+            parent,
+            super: () => {
+              throw new Error("End of generator chain");
+            },
+          };
+
+          self[columnTsKey] = generator.generate(ctx);
+        };
+
+        for (const columnName of columnOrder) {
+          generateColumn(columnName);
+        }
+
+        // multi-column keys are checked on the whole row, offending columns are regenerated
+        for (const { columnNames, duplicateChecker } of compositeKeys) {
+          const getValues = () =>
+            columnNames.map((columnName) => self[columnNameToTsKey[columnName]!]);
+
+          // database assigned and null values never collide
+          if (
+            getValues().some(
+              (value) =>
+                value === null ||
+                isGeneratedAsPlaceholder(value) ||
+                isDatabaseDefaultPlaceholder(value),
+            )
+          ) {
+            continue;
+          }
+
+          let tries = 0;
+
+          while (!duplicateChecker.add(getValues())) {
+            tries++;
+            if (tries >= MAX_UNIQUE_TRIES) {
+              throw new Error(
+                `Failed to generate unique value for (${columnNames.join(", ")}) columns after ${tries} tries | it was ${index + 1} value of ${count}`,
+              );
+            }
+            for (const columnName of columnOrder) {
+              if (columnNames.includes(columnName)) generateColumn(columnName);
+            }
+          }
+        }
+
+        yield self as inferGeneratorStreamChunk<schema, tableOrder>;
+      }
+    }
+  }
+
+  getRefineConfig(): refineConfig | null {
+    return this.config;
+  }
+
+  getSchema(): schema {
+    return this.schema;
+  }
+
+  /**
+   * Row counts of every generated table and existing ref source
+   */
+  getCounts(): Record<tableOrder[number], number> {
+    return this.resolveCounts().counts as Record<tableOrder[number], number>;
+  }
+
+  private resolveCounts() {
+    const existingTableKeys = Object.keys(this.config?.existing ?? {});
+
+    return getTableCounts(
+      Array.from(new Set([...(this.getTableOrder() as readonly string[]), ...existingTableKeys])),
+      (tableKey) =>
+        this.isExisting(tableKey)
+          ? (this.existingCounts[tableKey] ?? 0)
+          : this.getTableRefinements(tableKey)?.count,
+      this.generateOptions.seed ?? 0,
+      (this.generateOptions.seeding ?? "sequential") !== "sequential",
+    );
+  }
+
+  private isExisting(tableKey: string): boolean {
+    return !!(this.config?.existing as Record<string, unknown> | undefined)?.[tableKey];
+  }
+
+  /**
+   * Row counts of existing ref sources, set by the seeder before their rows are loaded
+   */
+  setExistingCounts(counts: Record<string, number>): void {
+    this.existingCounts = counts;
+  }
+
+  private getTableRefinements(tableKey: string): TableRefinements | undefined {
+    return (this.config?.tables as Record<string, TableRefinements | undefined> | undefined)?.[
+      tableKey
+    ];
+  }
+
+  getTableOrder(): tableOrder {
+    return (this.generateOptions.tableOrder ??
+      inferTableOrder(this.dialect, this.schema)) as tableOrder;
+  }
+
+  /**
+   * Nullable foreign key columns referencing the same or a later table, seeded as NULL and updated
+   * by primary key once referenced rows are stored. Tables without a primary key are left out.
+   */
+  getDeferredColumns(): Map<string, { columnKeys: string[]; primaryKeyColumnKeys: string[] }> {
+    const tableOrder = this.getTableOrder() as readonly string[];
+    const deferredColumns = new Map<
+      string,
+      { columnKeys: string[]; primaryKeyColumnKeys: string[] }
+    >();
+
+    tableOrder.forEach((tableKey, order) => {
+      const columnKeys = getTableForeignKeyReferences(this.dialect, this.schema, tableKey)
+        .filter(
+          (reference) =>
+            tableOrder.indexOf(reference.refTableKey) >= order &&
+            isNullableReference(this.schema, tableKey, reference),
+        )
+        .flatMap((reference) => reference.columnKeys);
+      const primaryKeyColumnKeys = getPrimaryKeyColumnKeys(
+        this.schema[tableKey],
+        this.dialect.getTableConfig(this.schema[tableKey]),
+      );
+
+      if (columnKeys.length > 0 && primaryKeyColumnKeys.length > 0) {
+        deferredColumns.set(tableKey, { columnKeys, primaryKeyColumnKeys });
+      }
+    });
+
+    return deferredColumns;
+  }
+
+  /**
+   * Refined refs together with columns referenced by foreign keys of generated tables
+   */
+  getRefs(): string[] {
+    const tableOrder = this.getTableOrder() as readonly string[];
+    const refs = new Set<string>(this.config?.refs ?? []);
+
+    for (const tableKey of tableOrder) {
+      for (const reference of getTableForeignKeyReferences(this.dialect, this.schema, tableKey)) {
+        if (
+          !tableOrder.includes(reference.refTableKey) &&
+          !this.isExisting(reference.refTableKey)
+        ) {
+          continue;
+        }
+        for (const refColumnKey of reference.refColumnKeys) {
+          refs.add(`${reference.refTableKey}.${refColumnKey}`);
+        }
+      }
+    }
+
+    return Array.from(refs);
+  }
+}
@@ -0,0 +1,150 @@
+import type { Column } from "drizzle-orm";
+import { BaseGenerator, type ExtendedGeneratorContext } from "./base.generator";
+import { generateDate } from "./data-type.generator";
+
+export type ColumnNameGeneratorFn = (ctx: ExtendedGeneratorContext) => unknown;
+
+/**
+ * Generators by column name, names are matched regardless of case, `_` and `-`
+ */
+export type ColumnNameGeneratorsMap = Record<string, ColumnNameGeneratorFn>;
+
+// taken values of unique columns are retried a few times before falling back to the chain
+const MAX_UNIQUE_TRIES = 20;
+
+const normalizeColumnName = (name: string) => name.toLowerCase().replace(/[_-]/g, "");
+
+// values are converted to the js type of the column, undefined if they can't be
+const toColumnValue = (value: unknown, columnDef: Column): unknown => {
+  const { dataType } = columnDef;
+  const [type, constraint] = dataType.split(" ");
+
+  if (type === "string") {
+    let stringValue: string;
+    if (value instanceof Date) {
+      stringValue =
+        constraint === "date" ? value.toISOString().split("T")[0]! : value.toISOString();
+    } else if (typeof value === "number" || typeof value === "string") {
+      stringValue = String(value);
+    } else {
+      return undefined;
+    }
+
+    const { length } = columnDef as Column & { length?: number };
+    return length !== undefined ? stringValue.slice(0, length) : stringValue;
+  }
+
+  if (type === "number" && typeof value === "number") {
+    return constraint?.includes("int") ? Math.round(value) : value;
+  }
+  if (dataType === "object date" && value instanceof Date) {
+    return value;
+  }
+  return typeof value === type ? value : undefined;
+};
+
+/**
+ * Generates values fitting the column name, like emails for `email` or cities for `city`.
+ * Enum columns and names missing in the map are left to the rest of the chain
+ */
+export class ColumnNameGenerator extends BaseGenerator {
+  private readonly normalizedMap: ColumnNameGeneratorsMap;
+
+  constructor(readonly generatorsMap: ColumnNameGeneratorsMap) {
+    super();
+    this.normalizedMap = Object.fromEntries(
+      Object.entries(generatorsMap).map(([name, fn]) => [normalizeColumnName(name), fn]),
+    );
+  }
+
+  generate(ctx: ExtendedGeneratorContext): unknown {
+    if (ctx.columnDef.enumValues && ctx.columnDef.enumValues.length > 0) {
+      return ctx.super();
+    }
+
+    const generator =
+      this.normalizedMap[normalizeColumnName(ctx.columnKey as string)] ??
+      this.normalizedMap[normalizeColumnName(ctx.columnDef.name)];
+    if (!generator) {
+      return ctx.super();
+    }
+
+    for (let tries = 0; tries < MAX_UNIQUE_TRIES; ++tries) {
+      const value = toColumnValue(generator(ctx), ctx.columnDef);
+      if (value === undefined) break;
+      if (!ctx.duplicateChecker?.search(value)) return value;
+    }
+    return ctx.super();
+  }
+
+  refine(refinements: ColumnNameGeneratorsMap): ColumnNameGenerator {
+    return new ColumnNameGenerator({
+      ...this.generatorsMap,
+      ...refinements,
+    });
+  }
+}
+
+export const defaultColumnNameGeneratorsMap: ColumnNameGeneratorsMap = {
+  // People
+  name: ({ faker }) => faker.person.fullName(),
+  fullName: ({ faker }) => faker.person.fullName(),
+  firstName: ({ faker }) => faker.person.firstName(),
+  lastName: ({ faker }) => faker.person.lastName(),
+  username: ({ faker }) => faker.internet.username(),
+  email: ({ faker }) => faker.internet.email(),
+  phone: ({ faker }) => faker.phone.number(),
+  phoneNumber: ({ faker }) => faker.phone.number(),
+  password: ({ faker }) => faker.internet.password(),
+  jobTitle: ({ faker }) => faker.person.jobTitle(),
+  bio: ({ faker }) => faker.person.bio(),
+  birthDate: ({ faker }) => faker.date.birthdate(),
+  dateOfBirth: ({ faker }) => faker.date.birthdate(),
+  age: ({ faker }) => faker.number.int({ min: 18, max: 90 }),
+
+  // Web
+  avatar: ({ faker }) => faker.image.avatar(),
+  avatarUrl: ({ faker }) => faker.image.avatar(),
+  imageUrl: ({ faker }) => faker.image.url(),
+  url: ({ faker }) => faker.internet.url(),
+  website: ({ faker }) => faker.internet.url(),
+  ip: ({ faker }) => faker.internet.ip(),
+  ipAddress: ({ faker }) => faker.internet.ip(),
+  userAgent: ({ faker }) => faker.internet.userAgent(),
+  slug: ({ faker }) => faker.lorem.slug(3),
+
+  // Places
+  address: ({ faker }) => faker.location.streetAddress(),
+  street: ({ faker }) => faker.location.street(),
+  city: ({ faker }) => faker.location.city(),
+  state: ({ faker }) => faker.location.state(),
+  country: ({ faker }) => faker.location.country(),
+  countryCode: ({ faker }) => faker.location.countryCode(),
+  zipCode: ({ faker }) => faker.location.zipCode(),
+  postalCode: ({ faker }) => faker.location.zipCode(),
+  latitude: ({ faker }) => faker.location.latitude(),
+  longitude: ({ faker }) => faker.location.longitude(),
+
+  // Business
+  company: ({ faker }) => faker.company.name(),
+  companyName: ({ faker }) => faker.company.name(),
+  price: ({ faker }) => Number(faker.commerce.price()),
+  amount: ({ faker }) => Number(faker.commerce.price()),
+  currency: ({ faker }) => faker.finance.currencyCode(),
+  quantity: ({ faker }) => faker.number.int({ min: 1, max: 100 }),
+  rating: ({ faker }) => faker.number.int({ min: 1, max: 5 }),
+  color: ({ faker }) => faker.color.human(),
+
+  // Text
+  title: ({ faker }) => faker.lorem.words({ min: 2, max: 5 }),
+  summary: ({ faker }) => faker.lorem.sentence(),
+  description: ({ faker }) => faker.lorem.paragraph(),
+  body: ({ faker }) => faker.lorem.paragraphs(),
+  content: ({ faker }) => faker.lorem.paragraphs(),
+
+  // Timestamps
+  createdAt: (ctx) => generateDate(ctx, "past"),
+  updatedAt: (ctx) => generateDate(ctx, "past"),
+};
+
+export const DefaultColumnNameGenerator = new ColumnNameGenerator(defaultColumnNameGeneratorsMap);
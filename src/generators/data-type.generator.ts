@@ -47,6 +47,14 @@ export class DataTypeGenerator extends BaseGenerator {
   }
 }
 
+/**
+ * Date within the `dateWindow` generate option, or faker's past or anytime date without it
+ */
+export const generateDate = (ctx: ExtendedGeneratorContext, fallback: "past" | "anytime"): Date => {
+  if (ctx.dateWindow) return ctx.faker.date.between(ctx.dateWindow);
+  return fallback === "past" ? ctx.faker.date.past() : ctx.faker.date.anytime();
+};
+
 export const defaultDataTypeGeneratorsMap: DataTypeGeneratorsMap = {
   // Base types
   boolean: ({ faker }) => faker.datatype.boolean(),
@@ -94,7 +102,7 @@ export const defaultDataTypeGeneratorsMap: DataTypeGeneratorsMap = {
 
   // Object constraints
   "object buffer": ({ index }) => Buffer.from(`buffer_${index}`),
-  "object date": ({ faker }) => faker.date.past(),
+  "object date": (ctx) => generateDate(ctx, "past"),
   "object geometry": ({ faker }) => ({
     type: "Point",
     coordinates: [faker.number.float({ max: 180 }), faker.number.float({ max: 90 })],
@@ -118,9 +126,9 @@ export const defaultDataTypeGeneratorsMap: DataTypeGeneratorsMap = {
   "object duration": ({ faker }) => ({
     milliseconds: faker.number.int({ min: 0, max: 86400000 }),
   }),
-  "object localDate": ({ faker }) => faker.date.anytime(),
-  "object localDateTime": ({ faker }) => faker.date.anytime(),
-  "object localTime": ({ faker }) => faker.date.anytime(),
+  "object localDate": (ctx) => generateDate(ctx, "anytime"),
+  "object localDateTime": (ctx) => generateDate(ctx, "anytime"),
+  "object localTime": (ctx) => generateDate(ctx, "anytime"),
   "object relDuration": ({ faker }) => ({
     milliseconds: faker.number.int({ min: 0, max: 86400000 }),
   }),
@@ -128,8 +136,8 @@ export const defaultDataTypeGeneratorsMap: DataTypeGeneratorsMap = {
   // String constraints
   "string binary": ({ index }) => Buffer.from(`bin_${index}`).toString("base64"),
   "string cidr": ({ faker }) => `${faker.internet.ipv4()}/24`,
-  "string date": ({ faker }) => faker.date.anytime().toISOString().split("T")[0]!,
-  "string datetime": ({ faker }) => faker.date.anytime().toISOString(),
+  "string date": (ctx) => generateDate(ctx, "anytime").toISOString().split("T")[0]!,
+  "string datetime": (ctx) => generateDate(ctx, "anytime").toISOString(),
   "string enum": () => "value", // Needs column-specific handling
   "string inet": ({ faker }) => faker.internet.ipv4(),
   "string int64": ({ faker }) => String(faker.number.int()),
@@ -148,7 +156,7 @@ export const defaultDataTypeGeneratorsMap: DataTypeGeneratorsMap = {
     const s = faker.number.int({ min: 0, max: 59 }).toString().padStart(2, "0");
     return `${h}:${m}:${s}`;
   },
-  "string timestamp": ({ faker }) => faker.date.anytime().toISOString(),
+  "string timestamp": (ctx) => generateDate(ctx, "anytime").toISOString(),
   "string uint64": ({ faker }) => String(faker.number.int({ min: 0 })),
   "string unumeric": ({ faker }) =>
     faker.number.float({ min: 0, max: 10000, fractionDigits: 2 }).toFixed(2),
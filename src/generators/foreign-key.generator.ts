@@ -0,0 +1,132 @@
+import type { Table } from "drizzle-orm";
+import { BaseGenerator, type ExtendedGeneratorContext } from "./base.generator";
+import { getForeignKeyReferences, type ForeignKeyReference } from "../helpers";
+import { columnValueReference, isColumnValueReference } from "../placeholders";
+import type { SchemaExport } from "../shared";
+
+type ColumnForeignKey = ForeignKeyReference & {
+  refColumnKey: string;
+};
+
+// part of a dialect table config foreign keys are read from
+type ForeignKeyTableConfig = {
+  foreignKeys: Parameters<typeof getForeignKeyReferences>[2];
+};
+
+export type ForeignKeyGeneratorOptions = {
+  /**
+   * Probability of leaving a nullable foreign key column empty, 0 by default
+   */
+  nullProbability?: number;
+};
+
+/**
+ * Fills foreign key columns with references to rows of the referenced table,
+ * the parent row for tables counted per row, otherwise picked uniformly unless the column is unique.
+ * Nullable columns referencing tables without rows are left empty, other columns throw.
+ * Dialects pass the table config their foreign keys are read from.
+ */
+export class ForeignKeyGenerator extends BaseGenerator {
+  private readonly foreignKeysByTable = new WeakMap<Table, Map<string, ColumnForeignKey>>();
+
+  constructor(
+    private readonly getTableConfig: (table: Table) => ForeignKeyTableConfig,
+    readonly options: ForeignKeyGeneratorOptions = {},
+  ) {
+    super();
+  }
+
+  generate(ctx: ExtendedGeneratorContext): unknown {
+    const foreignKey = this.getColumnForeignKeys(ctx.schema, ctx.schema[ctx.tableKey]).get(
+      ctx.columnKey as string,
+    );
+    if (!foreignKey) {
+      return ctx.super();
+    }
+
+    const isNullable = !ctx.columnDef.notNull;
+    const refCount = ctx.counts[foreignKey.refTableKey] ?? 0;
+
+    // tables left out of the seed or without rows have nothing to reference
+    if (refCount === 0) {
+      if (isNullable) return null;
+      throw new Error(
+        `Column "${ctx.columnKey as string}" of "${ctx.tableKey}" references "${foreignKey.refTableKey}", which has no rows to reference, seed "${foreignKey.refTableKey}" too or refine the column`,
+      );
+    }
+    const self = ctx.self as Record<string, unknown>;
+
+    // columns of a composite foreign key have to point to the same row
+    const siblingValues = foreignKey.columnKeys
+      .filter((columnKey) => columnKey !== ctx.columnKey && columnKey in self)
+      .map((columnKey) => self[columnKey]);
+    const siblingRef = siblingValues.find(
+      (value) => isColumnValueReference(value) && value.refTableName === foreignKey.refTableKey,
+    );
+
+    let refRowIndex: number;
+
+    if (isColumnValueReference(siblingRef)) {
+      refRowIndex = siblingRef.refRowIndex;
+    } else if (ctx.parent?.tableKey === foreignKey.refTableKey) {
+      // rows counted per parent row belong to it
+      refRowIndex = ctx.parent.index;
+    } else if (isNullable && siblingValues.includes(null)) {
+      return null;
+    } else if (
+      isNullable &&
+      ctx.faker.datatype.boolean({ probability: this.options.nullProbability ?? 0 })
+    ) {
+      return null;
+    } else {
+      // self references only point to already generated rows to avoid cycles
+      const maxRows =
+        foreignKey.refTableKey === ctx.tableKey ? Math.min(ctx.index, refCount) : refCount;
+
+      if (maxRows === 0) {
+        return isNullable ? null : ctx.super();
+      }
+
+      if (!ctx.duplicateChecker) {
+        refRowIndex = ctx.faker.number.int({ min: 0, max: maxRows - 1 });
+      } else {
+        // unique columns take a row each, self references the previous one. Refs are fresh objects
+        // the duplicate checker can't tell apart, so rows mustn't be handed out twice
+        refRowIndex = foreignKey.refTableKey === ctx.tableKey ? ctx.index - 1 : ctx.index;
+
+        if (refRowIndex >= maxRows) {
+          throw new Error(
+            `Unique column "${ctx.columnKey as string}" of "${ctx.tableKey}" needs a "${foreignKey.refTableKey}" row per row, but "${foreignKey.refTableKey}" has ${refCount} rows for ${ctx.count}, seed more "${foreignKey.refTableKey}" rows or refine the column`,
+          );
+        }
+      }
+    }
+
+    return columnValueReference({
+      refTableName: foreignKey.refTableKey,
+      refRowIndex,
+      refColumnName: foreignKey.refColumnKey,
+      transformFn: (value) => value,
+    });
+  }
+
+  private getColumnForeignKeys(schema: SchemaExport, table: Table): Map<string, ColumnForeignKey> {
+    let foreignKeys = this.foreignKeysByTable.get(table);
+
+    if (!foreignKeys) {
+      foreignKeys = new Map();
+      for (const reference of getForeignKeyReferences(
+        schema,
+        table,
+        this.getTableConfig(table).foreignKeys,
+      )) {
+        reference.columnKeys.forEach((columnKey, i) => {
+          foreignKeys!.set(columnKey, { ...reference, refColumnKey: reference.refColumnKeys[i]! });
+        });
+      }
+      this.foreignKeysByTable.set(table, foreignKeys);
+    }
+
+    return foreignKeys;
+  }
+}
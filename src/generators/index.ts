@@ -11,6 +11,7 @@ export {
   DataTypeGenerator,
   DefaultDataTypeGenerator,
   defaultDataTypeGeneratorsMap,
+  generateDate,
   type DataTypeGeneratorFn,
   type DataTypeGeneratorsMap,
   type GetColumnDataType,
@@ -21,3 +22,11 @@ export {
 export { RefinedGenerator } from "./refined.generator";
 
 export { DefaultUniqueValueGenerator } from "./unique-value.generator";
+
+export {
+  ColumnNameGenerator,
+  DefaultColumnNameGenerator,
+  defaultColumnNameGeneratorsMap,
+  type ColumnNameGeneratorFn,
+  type ColumnNameGeneratorsMap,
+} from "./column-name.generator";
@@ -1,5 +1,4 @@
-import type { getRefineConfig } from "../pg-core";
-import type { getPossibleRefs, getTablesFromSchemaExport, SchemaExport } from "../shared";
+import type { getTablesFromSchemaExport, SchemaExport } from "../shared";
 import { BaseGenerator, type ExtendedGeneratorContext } from "./base.generator";
 
 export class RefinedGenerator<
@@ -7,11 +6,10 @@ export class RefinedGenerator<
   tableOrder extends readonly getTablesFromSchemaExport<schema>[],
 > extends BaseGenerator {
   constructor(
-    private readonly refineConfig: getRefineConfig<
-      schema,
-      tableOrder,
-      Array<getPossibleRefs<schema, tableOrder>>
-    > | null,
+    // typed loosely, refine configs of every dialect only share columns
+    private readonly refineConfig: {
+      tables: { [tableKey in tableOrder[number]]?: { columns?: object } };
+    } | null,
   ) {
     super();
   }
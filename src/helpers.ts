@@ -1,4 +1,5 @@
-import { Column, is, Table } from "drizzle-orm";
+import { Column, is, SQL, Table } from "drizzle-orm";
+import type { SchemaExport } from "./shared";
 
 export const getColumnNameToTsKeyMap = (table: Table) =>
   Object.keys(table)
@@ -15,3 +16,112 @@ export const getColumnTsKeyToNameMap = (table: Table) =>
       (acc, tsKey) => ({ ...acc, [tsKey]: (table as any)[tsKey].name }),
       {} as Record<string, string>,
     );
+
+export type ForeignKeyReference = {
+  columnKeys: string[];
+  refTableKey: string;
+  refColumnKeys: string[];
+};
+
+type ForeignKeyLike = {
+  reference: () => { columns: Column[]; foreignTable: Table; foreignColumns: Column[] };
+};
+
+/**
+ * Maps foreign keys of a table to ts keys of their columns and schema key of the referenced table.
+ * Foreign keys to tables missing from the schema export are skipped.
+ */
+export const getForeignKeyReferences = (
+  schema: SchemaExport,
+  table: Table,
+  foreignKeys: ForeignKeyLike[],
+): ForeignKeyReference[] => {
+  const columnNameToTsKey = getColumnNameToTsKeyMap(table);
+
+  return foreignKeys.flatMap((fk) => {
+    const { columns, foreignTable, foreignColumns } = fk.reference();
+    const refTableKey = Object.keys(schema).find((key) => schema[key] === foreignTable);
+    if (refTableKey === undefined) return [];
+
+    const foreignColumnNameToTsKey = getColumnNameToTsKeyMap(foreignTable);
+
+    return [
+      {
+        columnKeys: columns.map((col) => columnNameToTsKey[col.name]!),
+        refTableKey,
+        refColumnKeys: foreignColumns.map((col) => foreignColumnNameToTsKey[col.name]!),
+      },
+    ];
+  });
+};
+
+type UniqueKeysTableConfig = {
+  columns: Column[];
+  indexes: { config: { columns: unknown[]; unique?: boolean } }[];
+  primaryKeys: { columns: Column[] }[];
+  uniqueConstraints: { columns: Column[] }[];
+};
+
+/**
+ * Collects column names of every unique key of a table: unique and primary key columns,
+ * composite primary keys, unique constraints and unique indexes.
+ * Indexes on sql expressions are skipped.
+ */
+export const getUniqueKeys = (tableConfig: UniqueKeysTableConfig): string[][] => {
+  const keys = [
+    ...tableConfig.columns.filter((col) => col.isUnique || col.primary).map((col) => [col.name]),
+    ...tableConfig.primaryKeys.map((pk) => pk.columns.map((col) => col.name)),
+    ...tableConfig.uniqueConstraints.map((constraint) => constraint.columns.map((col) => col.name)),
+    ...tableConfig.indexes
+      .filter((idx) => idx.config.unique)
+      .map((idx) =>
+        idx.config.columns.map((col) =>
+          is(col, SQL) ? undefined : (col as { name?: string }).name,
+        ),
+      )
+      .filter((key): key is string[] => key.every((columnName) => columnName !== undefined)),
+  ];
+
+  const seen = new Set<string>();
+
+  return keys.filter((key) => {
+    const id = [...key].sort().join(",");
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
+
+/**
+ * Ts keys of the primary key columns of a table, empty if it has none
+ */
+export const getPrimaryKeyColumnKeys = (
+  table: Table,
+  tableConfig: Pick<UniqueKeysTableConfig, "columns" | "primaryKeys">,
+): string[] => {
+  const columnNameToTsKey = getColumnNameToTsKeyMap(table);
+  const columns =
+    tableConfig.primaryKeys[0]?.columns ?? tableConfig.columns.filter((col) => col.primary);
+
+  return columns.map((col) => columnNameToTsKey[col.name]!);
+};
+
+/**
+ * Ts keys of the primary key, or else the first unique key, whose columns are all inserted
+ */
+export const getInsertedUniqueKey = (
+  table: Table,
+  tableConfig: UniqueKeysTableConfig,
+  insertedColumnKeys: string[],
+): string[] | undefined => {
+  const columnNameToTsKey = getColumnNameToTsKeyMap(table);
+
+  return [
+    getPrimaryKeyColumnKeys(table, tableConfig),
+    ...getUniqueKeys(tableConfig).map((key) =>
+      key.map((columnName) => columnNameToTsKey[columnName]!),
+    ),
+  ].find(
+    (key) => key.length > 0 && key.every((columnKey) => insertedColumnKeys.includes(columnKey)),
+  );
+};
@@ -0,0 +1,53 @@
+export type HierarchyOptions = {
+  // levels of the tree, 1 for roots only
+  depth: number;
+  // children of every row above the last level
+  branching: number;
+  // rows on the first level, 1 by default
+  roots?: number;
+};
+
+export type Hierarchy = {
+  // rows of the whole tree
+  count: number;
+  // index of the parent row, null for roots
+  parentIndex: (index: number) => number | null;
+  // level of a row, 0 for roots
+  level: (index: number) => number;
+};
+
+/**
+ * Lays out a tree for a self-referencing table level by level, so parents are generated
+ * before their children and refs to them never wait on rows generated later.
+ */
+export const createHierarchy = ({ depth, branching, roots = 1 }: HierarchyOptions): Hierarchy => {
+  for (const [name, value] of Object.entries({ depth, branching, roots })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Hierarchy ${name} has to be a positive integer, got ${value}`);
+    }
+  }
+
+  // index of the first row of every level, followed by the row count
+  const levelStarts = [0];
+  for (let level = 0, levelSize = roots; level < depth; ++level, levelSize *= branching) {
+    levelStarts.push(levelStarts[level]! + levelSize);
+  }
+  const count = levelStarts[depth]!;
+
+  const level = (index: number) => {
+    if (!Number.isInteger(index) || index < 0 || index >= count) {
+      throw new Error(`Row ${index} is out of the hierarchy of ${count} rows`);
+    }
+    return levelStarts.findIndex((start) => start > index) - 1;
+  };
+
+  return {
+    count,
+    level,
+    parentIndex: (index) => {
+      const rowLevel = level(index);
+      if (rowLevel === 0) return null;
+      return levelStarts[rowLevel - 1]! + Math.floor((index - levelStarts[rowLevel]!) / branching);
+    },
+  };
+};
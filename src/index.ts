@@ -4,3 +4,8 @@ export * from "./helpers";
 export * from "./placeholders";
 export * from "./shared";
 export * from "./generators";
+export * from "./table-order";
+export * from "./fan-out";
+export * from "./hierarchy";
+export * from "./ref-store";
+export * from "./seed-progress";
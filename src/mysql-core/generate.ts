@@ -0,0 +1,124 @@
+import { is, type SQL } from "drizzle-orm";
+import type {
+  getColumnGeneratorContext,
+  getPossibleRefs,
+  SchemaExport,
+  getColumnsWithoutGeneratedAs,
+  getTableInsertHooks,
+  getTablesFromSchemaExport,
+  inferColumnType,
+} from "../shared";
+import type { LocaleDefinition } from "../faker";
+import { mergeRefineConfigs } from "../refine-config";
+import type { getFanOutCount } from "../fan-out";
+import { getTableConfig, MySqlTable, type MySqlDatabase } from "drizzle-orm/mysql-core";
+import type { ColumnValueReference } from "../placeholders";
+import { SchemaGenerator, type GeneratorDialect, type getGenerateOptions } from "../generate";
+import { DefaultGenerator } from "./generators/default.generator";
+
+export type { getGenerateOptions, inferGeneratorStreamChunk } from "../generate";
+
+export type getTableRefineConfig<
+  schema extends SchemaExport,
+  tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  tableKey extends keyof schema,
+  table extends MySqlTable,
+  columnOrder extends readonly getColumnsWithoutGeneratedAs<schema[tableKey]>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+> = {
+  /**
+   * Row count of the table, or row count under every row of another table
+   */
+  count?: number | getFanOutCount<tableOrder[number]>;
+  columnOrder?: columnOrder;
+  /**
+   * Overrides the `locale` generate option for the table
+   */
+  locale?: LocaleDefinition | LocaleDefinition[];
+  /**
+   * Literal rows emitted before generated ones and counted toward `count`,
+   * columns left out are generated
+   */
+  rows?: Array<{
+    [columnKey in getColumnsWithoutGeneratedAs<schema[tableKey]>]?: inferColumnType<
+      schema[tableKey][columnKey]
+    >;
+  }>;
+  columns?: {
+    [columnKey in getColumnsWithoutGeneratedAs<schema[tableKey]>]?: (
+      ctx: getColumnGeneratorContext<
+        schema,
+        tableOrder,
+        tableKey,
+        table,
+        columnKey,
+        columnOrder,
+        schema[tableKey]["_"]["columns"][columnKey],
+        refs
+      >,
+    ) =>
+      | inferColumnType<schema[tableKey][columnKey]>
+      | ColumnValueReference<inferColumnType<schema[tableKey][columnKey]>>;
+  };
+  hooks?: getTableInsertHooks<schema[tableKey], tableKey, MySqlDatabase<any, any>>;
+};
+
+export type getRefineConfig<
+  schema extends SchemaExport,
+  tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+> = {
+  refs: refs;
+  /**
+   * Tables whose rows are loaded from the database instead of generated, so refs can point to them
+   */
+  existing?: {
+    [tableKey in getTablesFromSchemaExport<schema>]?: { where?: SQL };
+  };
+  tables: {
+    [tableKey in tableOrder[number]]?: getTableRefineConfig<
+      schema,
+      tableOrder,
+      tableKey,
+      schema[tableKey],
+      getColumnsWithoutGeneratedAs<schema[tableKey]>[],
+      refs
+    >;
+  };
+};
+
+const mysqlDialect: GeneratorDialect = {
+  isTable: (value) => is(value, MySqlTable),
+  getTableConfig: (table) => getTableConfig(table as MySqlTable),
+  defaultGenerator: DefaultGenerator,
+};
+
+export class MySqlGenerator<
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+> extends SchemaGenerator<schema, tableOrder, getRefineConfig<schema, tableOrder, refs>> {
+  constructor(schema: schema, generateOptions: getGenerateOptions<schema, tableOrder>) {
+    super(schema, generateOptions, mysqlDialect);
+  }
+
+  /**
+   * Returns a new generator with `config` layered over the current refinements,
+   * the current generator is left as is
+   */
+  refine<refineConfig extends getRefineConfig<schema, tableOrder, refs>>(
+    config: refineConfig,
+  ): MySqlGenerator<schema, tableOrder, refs> {
+    const refined = new MySqlGenerator<schema, tableOrder, refs>(this.schema, this.generateOptions);
+    refined.config = mergeRefineConfigs(this.config, config);
+    return refined;
+  }
+}
+
+export function generate<
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[] =
+    getTablesFromSchemaExport<schema>[],
+>(schema: schema, generateOptions: getGenerateOptions<schema, tableOrder> = {}) {
+  return new MySqlGenerator(schema, generateOptions);
+}
@@ -0,0 +1,22 @@
+import { is } from "drizzle-orm";
+import { MySqlColumnWithAutoIncrement } from "drizzle-orm/mysql-core";
+import { BaseGenerator, type ExtendedGeneratorContext } from "../../generators/base.generator";
+import { databaseDefaultPlaceholder } from "../../placeholders";
+
+/**
+ * Leaves auto increment columns (including `serial`) to the database,
+ * seeders read the assigned values back for refs.
+ */
+export class DatabaseDefaultGenerator extends BaseGenerator {
+  generate(ctx: ExtendedGeneratorContext): unknown {
+    const { columnDef } = ctx;
+
+    if (is(columnDef, MySqlColumnWithAutoIncrement) && columnDef.autoIncrement) {
+      return databaseDefaultPlaceholder();
+    }
+
+    return ctx.super();
+  }
+}
+
+export const DefaultDatabaseDefaultGenerator = new DatabaseDefaultGenerator();
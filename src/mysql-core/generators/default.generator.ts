@@ -0,0 +1,10 @@
+import { DefaultDataTypeGenerator } from "../../generators";
+import { DefaultRuntimeConfigAwareGenerator } from "./runtime-config-aware.generator";
+import { DefaultForeignKeyGenerator } from "./foreign-key.generator";
+import { DefaultDatabaseDefaultGenerator } from "./database-default.generator";
+import { DefaultUniqueValueGenerator } from "../../generators";
+
+export const DefaultGenerator = DefaultDataTypeGenerator.extend(DefaultRuntimeConfigAwareGenerator)
+  .extend(DefaultForeignKeyGenerator)
+  .extend(DefaultUniqueValueGenerator)
+  .extend(DefaultDatabaseDefaultGenerator);
@@ -0,0 +1,19 @@
+import { getTableConfig, type MySqlTable } from "drizzle-orm/mysql-core";
+import {
+  ForeignKeyGenerator as SharedForeignKeyGenerator,
+  type ForeignKeyGeneratorOptions,
+} from "../../generators/foreign-key.generator";
+
+export type { ForeignKeyGeneratorOptions };
+
+/**
+ * Fills foreign key columns with references to rows of the referenced table,
+ * see the shared `ForeignKeyGenerator`
+ */
+export class ForeignKeyGenerator extends SharedForeignKeyGenerator {
+  constructor(options: ForeignKeyGeneratorOptions = {}) {
+    super((table) => getTableConfig(table as MySqlTable), options);
+  }
+}
+
+export const DefaultForeignKeyGenerator = new ForeignKeyGenerator();
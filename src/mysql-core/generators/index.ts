@@ -0,0 +1,14 @@
+export { DefaultGenerator } from "./default.generator";
+export {
+  RuntimeConfigAwareGenerator,
+  DefaultRuntimeConfigAwareGenerator,
+} from "./runtime-config-aware.generator";
+export {
+  ForeignKeyGenerator,
+  DefaultForeignKeyGenerator,
+  type ForeignKeyGeneratorOptions,
+} from "./foreign-key.generator";
+export {
+  DatabaseDefaultGenerator,
+  DefaultDatabaseDefaultGenerator,
+} from "./database-default.generator";
@@ -0,0 +1,209 @@
+import { is } from "drizzle-orm";
+import {
+  MySqlBinary,
+  MySqlChar,
+  MySqlDateTime,
+  MySqlDateTimeString,
+  MySqlDecimal,
+  MySqlDecimalBigInt,
+  MySqlDecimalNumber,
+  MySqlEnumColumn,
+  MySqlEnumObjectColumn,
+  MySqlText,
+  MySqlTimestamp,
+  MySqlTimestampString,
+  MySqlVarBinary,
+  MySqlVarChar,
+} from "drizzle-orm/mysql-core";
+import { BaseGenerator, type ExtendedGeneratorContext } from "../../generators/base.generator";
+import { generateDate } from "../../generators/data-type.generator";
+
+type MySqlColumnClasses = {
+  MySqlVarChar: InstanceType<typeof MySqlVarChar>;
+  MySqlChar: InstanceType<typeof MySqlChar>;
+  MySqlText: InstanceType<typeof MySqlText>;
+  MySqlEnumColumn: InstanceType<typeof MySqlEnumColumn>;
+  MySqlEnumObjectColumn: InstanceType<typeof MySqlEnumObjectColumn>;
+  MySqlDecimal: InstanceType<typeof MySqlDecimal>;
+  MySqlDecimalNumber: InstanceType<typeof MySqlDecimalNumber>;
+  MySqlDecimalBigInt: InstanceType<typeof MySqlDecimalBigInt>;
+  MySqlDateTime: InstanceType<typeof MySqlDateTime>;
+  MySqlDateTimeString: InstanceType<typeof MySqlDateTimeString>;
+  MySqlTimestamp: InstanceType<typeof MySqlTimestamp>;
+  MySqlTimestampString: InstanceType<typeof MySqlTimestampString>;
+  MySqlBinary: InstanceType<typeof MySqlBinary>;
+  MySqlVarBinary: InstanceType<typeof MySqlVarBinary>;
+};
+
+export type RuntimeConfigHandlerFn<K extends keyof MySqlColumnClasses> = (
+  ctx: Omit<ExtendedGeneratorContext, "columnDef"> & {
+    columnDef: MySqlColumnClasses[K];
+  },
+) => unknown;
+
+export type RuntimeConfigHandlersMap = {
+  [K in keyof MySqlColumnClasses]?: RuntimeConfigHandlerFn<K>;
+};
+
+const columnClassMap = {
+  MySqlVarChar,
+  MySqlChar,
+  MySqlText,
+  MySqlEnumColumn,
+  MySqlEnumObjectColumn,
+  MySqlDecimal,
+  MySqlDecimalNumber,
+  MySqlDecimalBigInt,
+  MySqlDateTime,
+  MySqlDateTimeString,
+  MySqlTimestamp,
+  MySqlTimestampString,
+  MySqlBinary,
+  MySqlVarBinary,
+} as const;
+
+export class RuntimeConfigAwareGenerator extends BaseGenerator {
+  constructor(readonly handlersMap: RuntimeConfigHandlersMap) {
+    super();
+  }
+
+  generate(ctx: ExtendedGeneratorContext): unknown {
+    for (const [className, handler] of Object.entries(this.handlersMap)) {
+      const columnClass = columnClassMap[className as keyof typeof columnClassMap];
+      if (columnClass && handler && is(ctx.columnDef, columnClass)) {
+        const result = (handler as RuntimeConfigHandlerFn<any>)(ctx as any);
+        if (result !== undefined) {
+          return result;
+        }
+      }
+    }
+    return ctx.super();
+  }
+
+  refine(refinements: RuntimeConfigHandlersMap): RuntimeConfigAwareGenerator {
+    return new RuntimeConfigAwareGenerator({
+      ...this.handlersMap,
+      ...refinements,
+    });
+  }
+}
+
+// MySQL rounds fractional seconds beyond the column's fsp
+const truncateToFsp = (date: Date, fsp: number | undefined): Date => {
+  const step = Math.pow(10, 3 - Math.min(fsp ?? 0, 3));
+  return new Date(Math.floor(date.getTime() / step) * step);
+};
+
+// "YYYY-MM-DD HH:MM:SS[.fff]", the format MySQL accepts for datetime and timestamp literals
+const toDateTimeString = (date: Date, fsp: number | undefined): string => {
+  const [datePart, timePart] = date.toISOString().split("T");
+  const [hms, ms] = timePart!.slice(0, -1).split(".");
+  const fraction = fsp ? ms!.padEnd(fsp, "0").slice(0, fsp) : "";
+
+  return `${datePart} ${hms}${fraction ? `.${fraction}` : ""}`;
+};
+
+const defaultHandlers: RuntimeConfigHandlersMap = {
+  MySqlVarChar: (ctx) => {
+    if (ctx.columnDef.enumValues && ctx.columnDef.enumValues.length > 0) {
+      return ctx.faker.helpers.arrayElement([...ctx.columnDef.enumValues]);
+    }
+    if (ctx.columnDef.length !== undefined) {
+      const baseString = `varchar_${ctx.index}`;
+      return baseString.length <= ctx.columnDef.length
+        ? baseString
+        : ctx.faker.string.alphanumeric({ length: ctx.columnDef.length });
+    }
+    return undefined;
+  },
+
+  MySqlChar: (ctx) => {
+    if (ctx.columnDef.enumValues && ctx.columnDef.enumValues.length > 0) {
+      return ctx.faker.helpers.arrayElement([...ctx.columnDef.enumValues]);
+    }
+    return ctx.faker.string.alphanumeric({ length: ctx.columnDef.length ?? 1 });
+  },
+
+  MySqlText: (ctx) => {
+    if (ctx.columnDef.enumValues && ctx.columnDef.enumValues.length > 0) {
+      return ctx.faker.helpers.arrayElement([...ctx.columnDef.enumValues]);
+    }
+    return undefined;
+  },
+
+  MySqlEnumColumn: (ctx) => ctx.faker.helpers.arrayElement([...ctx.columnDef.enumValues!]),
+
+  MySqlEnumObjectColumn: (ctx) => ctx.faker.helpers.arrayElement([...ctx.columnDef.enumValues!]),
+
+  MySqlDecimal: (ctx) => {
+    const { precision, scale } = ctx.columnDef;
+
+    if (precision !== undefined) {
+      const integerDigits = scale !== undefined && scale > 0 ? precision - scale : precision;
+      const maxInteger = Math.pow(10, integerDigits) - 1;
+
+      if (scale !== undefined && scale > 0) {
+        const intPart = ctx.faker.number.int({ min: 0, max: maxInteger });
+        const decPart = ctx.faker.number.int({
+          min: 0,
+          max: Math.pow(10, scale) - 1,
+        });
+        return `${intPart}.${decPart.toString().padStart(scale, "0")}`;
+      }
+      return ctx.faker.number.int({ min: 0, max: maxInteger }).toString();
+    }
+    return undefined;
+  },
+
+  MySqlDecimalNumber: (ctx) => {
+    const { precision, scale } = ctx.columnDef;
+
+    if (precision !== undefined) {
+      const integerDigits = scale !== undefined && scale > 0 ? precision - scale : precision;
+      const maxInteger = Math.pow(10, integerDigits) - 1;
+      const fractionDigits = scale ?? 0;
+
+      return ctx.faker.number.float({
+        min: 0,
+        max: maxInteger,
+        fractionDigits,
+      });
+    }
+    return undefined;
+  },
+
+  MySqlDecimalBigInt: (ctx) => {
+    const { precision } = ctx.columnDef;
+
+    if (precision !== undefined) {
+      const maxValue = Math.pow(10, precision) - 1;
+      return BigInt(
+        ctx.faker.number.int({
+          min: 0,
+          max: Math.min(maxValue, Number.MAX_SAFE_INTEGER),
+        }),
+      );
+    }
+    return undefined;
+  },
+
+  MySqlDateTime: (ctx) => truncateToFsp(generateDate(ctx, "anytime"), ctx.columnDef.fsp),
+
+  MySqlDateTimeString: (ctx) => toDateTimeString(generateDate(ctx, "anytime"), ctx.columnDef.fsp),
+
+  // timestamp only covers 1970 - 2038
+  MySqlTimestamp: (ctx) => truncateToFsp(generateDate(ctx, "past"), ctx.columnDef.fsp),
+
+  MySqlTimestampString: (ctx) => toDateTimeString(generateDate(ctx, "past"), ctx.columnDef.fsp),
+
+  MySqlBinary: (ctx) => ctx.faker.string.alphanumeric({ length: ctx.columnDef.length ?? 1 }),
+
+  MySqlVarBinary: (ctx) => {
+    if (ctx.columnDef.length !== undefined) {
+      return ctx.faker.string.alphanumeric({ length: { min: 1, max: ctx.columnDef.length } });
+    }
+    return undefined;
+  },
+};
+
+export const DefaultRuntimeConfigAwareGenerator = new RuntimeConfigAwareGenerator(defaultHandlers);
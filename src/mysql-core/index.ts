@@ -0,0 +1,6 @@
+export * from "./generators";
+export * from "./seed";
+export * from "./generate";
+export * from "./reset";
+export * from "./to-sql";
+export * from "./to-fixtures";
@@ -0,0 +1,31 @@
+import { is, sql } from "drizzle-orm";
+import type { MySqlDatabase } from "drizzle-orm/mysql-core";
+import { getTableConfig, MySqlTable } from "drizzle-orm/mysql-core";
+
+export const reset = async (
+  db: MySqlDatabase<any, any>,
+  schema: Record<string, MySqlTable | any>,
+) => {
+  const tablesToTruncate = Object.values(schema)
+    .filter((ent) => is(ent, MySqlTable))
+    .map((table) => {
+      const config = getTableConfig(table);
+
+      return config.schema ? `\`${config.schema}\`.\`${config.name}\`` : `\`${config.name}\``;
+    });
+
+  // FOREIGN_KEY_CHECKS is per session, the transaction only pins every statement to one pooled
+  // connection: TRUNCATE commits implicitly, tables truncated before a failure stay empty
+  await db.transaction(async (tx) => {
+    await tx.execute(sql.raw("SET FOREIGN_KEY_CHECKS = 0"));
+
+    try {
+      for (const tableName of tablesToTruncate) {
+        await tx.execute(sql.raw(`truncate ${tableName};`));
+      }
+    } finally {
+      // the connection goes back to the pool, it mustn't keep the checks disabled
+      await tx.execute(sql.raw("SET FOREIGN_KEY_CHECKS = 1"));
+    }
+  });
+};
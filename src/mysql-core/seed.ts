@@ -0,0 +1,101 @@
+import type { SQL } from "drizzle-orm";
+import type { getPossibleRefs, getTablesFromSchemaExport, SchemaExport } from "../shared";
+import type { MySqlGenerator } from "./generate";
+import { getTableConfig, type MySqlColumn, type MySqlTable } from "drizzle-orm/mysql-core";
+import type { RefStore } from "../ref-store";
+import type { SeedCallbacks } from "../seed-progress";
+import { Seeder, type SeederDialect } from "../seed";
+
+const MYSQL_MAX_PARAMETERS = 65535;
+
+type DrizzleDb = {
+  insert: (table: MySqlTable) => {
+    values: (values: Record<string, unknown>[]) => Promise<unknown> & {
+      $returningId: () => Promise<Record<string, unknown>[]>;
+    };
+  };
+  update: (table: MySqlTable) => {
+    set: (values: Record<string, unknown>) => {
+      where: (where: SQL | undefined) => Promise<unknown>;
+    };
+  };
+  select?: (fields: Record<string, MySqlColumn>) => {
+    from: (table: MySqlTable) => {
+      where: (where: SQL | undefined) => {
+        orderBy: (...columns: MySqlColumn[]) => {
+          limit: (limit: number) => {
+            offset: (offset: number) => Promise<Record<string, unknown>[]>;
+          };
+        };
+      };
+    };
+  };
+  $count?: (table: MySqlTable, where?: SQL) => Promise<number>;
+  transaction?: <T>(transaction: (tx: DrizzleDb) => Promise<T>) => Promise<T>;
+};
+
+export type SeedOptions = SeedCallbacks & {
+  /**
+   * Wraps inserts in transactions (requires an async driver):
+   * - `true` - a single transaction, rolled back entirely if seeding fails
+   * - `"per-table"` - a transaction per table, committed once the table is inserted
+   */
+  transaction?: boolean | "per-table";
+  /**
+   * Where values of referenced columns are kept while seeding,
+   * in memory for small seeds and in a temporary libsql file for huge ones by default
+   */
+  refStore?: RefStore;
+  /**
+   * Maximum number of batches inserted at once, 1 by default.
+   * A batch only waits on batches holding rows it references. Can't be combined with `transaction`
+   */
+  concurrency?: number;
+};
+
+const mysqlDialect: SeederDialect<DrizzleDb> = {
+  maxParameters: MYSQL_MAX_PARAMETERS,
+  getTableConfig: (table) => getTableConfig(table as MySqlTable),
+  insertBatch: async ({ executor, tableName, table, rows, refColumns }) => {
+    // MySQL has no RETURNING, auto increment values are only read back by $returningId,
+    // which covers primary keys alone
+    const autoIncrementRefs = refColumns.filter((col) => (table as any)[col].autoIncrement);
+    const unreadableRef = autoIncrementRefs.find((col) => !(table as any)[col].primary);
+
+    if (unreadableRef) {
+      throw new Error(
+        `Column "${unreadableRef}" of "${tableName}" is auto increment without being the primary key, its values can't be read back for refs, refine it with an explicit value`,
+      );
+    }
+
+    if (autoIncrementRefs.length === 0) {
+      await executor.insert(table as MySqlTable).values(rows);
+      return rows;
+    }
+
+    const insertedIds = await executor
+      .insert(table as MySqlTable)
+      .values(rows)
+      .$returningId();
+
+    if (insertedIds.length !== rows.length) {
+      throw new Error(
+        `Expected ${rows.length} ids returned from "${tableName}" insert, got ${insertedIds.length}`,
+      );
+    }
+
+    return rows.map((row, i) => ({ ...row, ...insertedIds[i] }));
+  },
+};
+
+export const seed = <
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+>(
+  db: DrizzleDb,
+  generator: MySqlGenerator<schema, tableOrder, refs>,
+  options: SeedOptions = {},
+) => {
+  return new Seeder(db, generator, options, mysqlDialect);
+};
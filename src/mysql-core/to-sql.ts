@@ -0,0 +1,63 @@
+import { getTableConfig, type MySqlTable } from "drizzle-orm/mysql-core";
+import type { getPossibleRefs, getTablesFromSchemaExport, SchemaExport } from "../shared";
+import {
+  createSqlScript,
+  stringifyJson,
+  toHex,
+  type SqlScriptDialect,
+  type SqlScriptOptions,
+} from "../sql-script";
+import type { MySqlGenerator } from "./generate";
+import { seed, type SeedOptions } from "./seed";
+
+export type ToSqlOptions = SqlScriptOptions & SeedOptions;
+
+const escapeString = (value: string) =>
+  `'${value.replaceAll("\\", "\\\\").replaceAll("'", "''").replaceAll("\0", "\\0")}'`;
+
+const mysqlDialect: SqlScriptDialect = {
+  escapeIdentifier: (name) => `\`${name.replaceAll("`", "``")}\``,
+  escapeValue: (value) => {
+    if (value === null || value === undefined) return "NULL";
+    if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+    if (typeof value === "bigint") return value.toString();
+    if (typeof value === "number") {
+      return Number.isFinite(value) ? value.toString() : "NULL";
+    }
+    if (value instanceof Date)
+      return escapeString(value.toISOString().replace("T", " ").slice(0, -1));
+    if (value instanceof Uint8Array) return `X'${toHex(value)}'`;
+    if (typeof value === "object") return escapeString(stringifyJson(value));
+    return escapeString(String(value));
+  },
+  getTableName: (table) => {
+    const config = getTableConfig(table as MySqlTable);
+    return config.schema ? `\`${config.schema}\`.\`${config.name}\`` : `\`${config.name}\``;
+  },
+  defaultValue: "DEFAULT",
+  renderSequenceResync: (tableName, _, lastValue) =>
+    `ALTER TABLE ${tableName} AUTO_INCREMENT = ${lastValue + 1};\n`,
+};
+
+/**
+ * Renders the seed as a SQL script of INSERT statements instead of executing it.
+ * Refs are resolved the same way as in `seed`. Auto increment keys are inserted explicitly,
+ * followed by `ALTER TABLE ... AUTO_INCREMENT` moving the counters past them.
+ */
+export const toSql = async <
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+>(
+  generator: MySqlGenerator<schema, tableOrder, refs>,
+  { output, casing, ...seedOptions }: ToSqlOptions,
+): Promise<void> => {
+  const script = createSqlScript(mysqlDialect, { output, casing });
+
+  try {
+    await seed(script.db, generator, seedOptions);
+    await script.finish();
+  } finally {
+    await script.close();
+  }
+};
@@ -0,0 +1,157 @@
+import { once } from "events";
+import { finished } from "stream/promises";
+import type { Writable } from "stream";
+import type { Column } from "drizzle-orm";
+import { CasingCache } from "drizzle-orm/casing";
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+import { stringifyJson, toHex } from "../sql-script";
+
+// drizzle keeps the driver client on the session, for both databases and transactions
+type CopyableDb = {
+  session?: { client?: any };
+  dialect?: { casing?: CasingCache };
+};
+
+type CopyStream = {
+  stream: Writable;
+  release: () => void;
+};
+
+let copyFromPromise: Promise<((query: string) => unknown) | null> | null = null;
+
+// pg-copy-streams is optional, node-postgres clients fall back to inserts without it
+const loadCopyFrom = () => {
+  const moduleName = "pg-copy-streams";
+  copyFromPromise ??= import(moduleName).then(
+    (module) => module.from ?? module.default?.from ?? null,
+    () => null,
+  );
+  return copyFromPromise;
+};
+
+export type CopyDriver = "postgres.js" | "node-postgres" | "node-postgres-pool";
+
+/**
+ * Driver of a drizzle session client able to COPY, null for the rest (pglite, neon, bun, ...)
+ * even if they have `query` or `unsafe` methods
+ */
+export const getCopyDriver = (client: any): CopyDriver | null => {
+  if (!client || (typeof client !== "object" && typeof client !== "function")) return null;
+
+  // `typed` and `notify` are also set on the `sql` of postgres.js transactions
+  if (
+    typeof client.unsafe === "function" &&
+    typeof client.typed === "function" &&
+    typeof client.notify === "function"
+  ) {
+    return "postgres.js";
+  }
+
+  if (typeof client.query !== "function") return null;
+  if (typeof client.connect === "function" && Array.isArray(client._clients)) {
+    return "node-postgres-pool";
+  }
+  if (typeof client.connectionParameters === "object" && client.connectionParameters !== null) {
+    return "node-postgres";
+  }
+  return null;
+};
+
+const openCopyStream = async (client: any, query: string): Promise<CopyStream | null> => {
+  const driver = getCopyDriver(client);
+
+  if (driver === "postgres.js") {
+    return { stream: await client.unsafe(query).writable(), release: () => {} };
+  }
+
+  if (driver === "node-postgres" || driver === "node-postgres-pool") {
+    const copyFrom = await loadCopyFrom();
+    if (!copyFrom) return null;
+
+    const isPool = driver === "node-postgres-pool";
+    const connection = isPool ? await client.connect() : client;
+
+    return {
+      stream: connection.query(copyFrom(query)),
+      release: () => {
+        if (isPool) connection.release();
+      },
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Renders a value mapped with the column's `mapToDriverValue` as a field of COPY's CSV format
+ */
+export const toCsvField = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "boolean") return value ? "t" : "f";
+  if (typeof value === "number" || typeof value === "bigint") return value.toString();
+
+  let text: string;
+  if (value instanceof Date) text = value.toISOString();
+  else if (value instanceof Uint8Array) text = `\\x${toHex(value)}`;
+  else if (typeof value === "object") text = stringifyJson(value);
+  else text = String(value);
+
+  // quoted fields keep empty strings apart from NULL
+  return `"${text.replaceAll('"', '""')}"`;
+};
+
+/**
+ * Loads rows with `COPY ... FROM STDIN` in CSV format.
+ * Resolves to `false` without loading anything if the driver doesn't expose COPY
+ * (postgres.js and node-postgres with pg-copy-streams do) or the rows can't be copied.
+ */
+export const copyRows = async (
+  db: object,
+  table: PgTable,
+  rows: Record<string, unknown>[],
+): Promise<boolean> => {
+  const { session, dialect } = db as CopyableDb;
+  const columnKeys = Object.keys(rows[0] ?? {});
+
+  // COPY has no DEFAULT, every row has to provide every column
+  if (
+    columnKeys.length === 0 ||
+    rows.some((row) => Object.keys(row).length !== columnKeys.length)
+  ) {
+    return false;
+  }
+
+  const casing = dialect?.casing ?? new CasingCache();
+  const columns = columnKeys.map((columnKey) => (table as any)[columnKey] as Column);
+  const config = getTableConfig(table);
+  const query = `COPY "${config.schema ?? "public"}"."${config.name}" (${columns
+    .map((col) => `"${casing.getColumnCasing(col)}"`)
+    .join(", ")}) FROM STDIN WITH (FORMAT csv)`;
+
+  const copy = await openCopyStream(session?.client, query);
+  if (!copy) return false;
+
+  try {
+    for (const row of rows) {
+      const line = `${columnKeys
+        .map((columnKey, i) => {
+          const value = row[columnKey];
+          return toCsvField(
+            value === null || value === undefined ? null : columns[i]!.mapToDriverValue(value),
+          );
+        })
+        .join(",")}\n`;
+
+      if (!copy.stream.write(line)) {
+        await once(copy.stream, "drain");
+      }
+    }
+
+    copy.stream.end();
+    await finished(copy.stream);
+  } finally {
+    copy.release();
+  }
+
+  return true;
+};
@@ -0,0 +1,29 @@
+import { is, SQL } from "drizzle-orm";
+import { PgBigSerial53, PgBigSerial64, PgSerial, PgSmallSerial } from "drizzle-orm/pg-core";
+import { BaseGenerator, type ExtendedGeneratorContext } from "../../generators/base.generator";
+import { databaseDefaultPlaceholder } from "../../placeholders";
+
+/**
+ * Leaves serial, identity and primary key columns with sql defaults (e.g. `defaultRandom()`)
+ * to the database, seeders read the assigned values back for refs.
+ */
+export class DatabaseDefaultGenerator extends BaseGenerator {
+  generate(ctx: ExtendedGeneratorContext): unknown {
+    const { columnDef } = ctx;
+
+    if (
+      columnDef.generatedIdentity ||
+      is(columnDef, PgSerial) ||
+      is(columnDef, PgSmallSerial) ||
+      is(columnDef, PgBigSerial53) ||
+      is(columnDef, PgBigSerial64) ||
+      (columnDef.primary && is(columnDef.default, SQL))
+    ) {
+      return databaseDefaultPlaceholder();
+    }
+
+    return ctx.super();
+  }
+}
+
+export const DefaultDatabaseDefaultGenerator = new DatabaseDefaultGenerator();
@@ -11,6 +11,7 @@ import {
   PgVector,
 } from "drizzle-orm/pg-core";
 import { BaseGenerator, type ExtendedGeneratorContext } from "../../generators/base.generator";
+import { generateDate } from "../../generators/data-type.generator";
 
 type PgColumnClasses = {
   PgText: InstanceType<typeof PgText>;
@@ -155,7 +156,7 @@ const defaultHandlers: RuntimeConfigHandlersMap = {
   PgTimestampString: (ctx) => {
     const { precision } = ctx.columnDef;
 
-    const date = ctx.faker.date.anytime();
+    const date = generateDate(ctx, "anytime");
     let isoString = date.toISOString();
 
     if (precision !== undefined && precision < 3) {
@@ -3,3 +3,5 @@ export * from "./seed";
 export * from "./generate";
 export * from "./generators";
 export * from "./reset";
+export * from "./to-sql";
+export * from "./to-fixtures";
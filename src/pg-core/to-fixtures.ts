@@ -0,0 +1,29 @@
+import { createFixtureWriter, type FixtureOptions } from "../fixtures";
+import type { getPossibleRefs, getTablesFromSchemaExport, SchemaExport } from "../shared";
+import type { PgGenerator } from "./generate";
+import { seed } from "./seed";
+
+export type ToFixturesOptions = FixtureOptions;
+
+/**
+ * Writes the seed to JSON, NDJSON or CSV fixture files with refs resolved, instead of inserting it.
+ * Like in `toSql`, keys the database would assign are written explicitly, counting up per table.
+ */
+export const toFixtures = async <
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+>(
+  generator: PgGenerator<schema, tableOrder, refs>,
+  options: ToFixturesOptions,
+): Promise<void> => {
+  const fixtures = createFixtureWriter(generator.getSchema(), options, [
+    ...generator.getDeferredColumns().keys(),
+  ]);
+
+  try {
+    await seed(fixtures.db, generator);
+  } finally {
+    await fixtures.close();
+  }
+};
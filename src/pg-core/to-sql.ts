@@ -0,0 +1,65 @@
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+import type { getPossibleRefs, getTablesFromSchemaExport, SchemaExport } from "../shared";
+import {
+  createSqlScript,
+  stringifyJson,
+  toHex,
+  type SqlScriptDialect,
+  type SqlScriptOptions,
+} from "../sql-script";
+import type { PgGenerator } from "./generate";
+import { seed, type SeedOptions } from "./seed";
+
+export type ToSqlOptions = SqlScriptOptions & SeedOptions;
+
+const escapeString = (value: string) => `'${value.replaceAll("'", "''")}'`;
+
+const pgDialect: SqlScriptDialect = {
+  escapeIdentifier: (name) => `"${name.replaceAll('"', '""')}"`,
+  escapeValue: (value) => {
+    if (value === null || value === undefined) return "NULL";
+    if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+    if (typeof value === "bigint") return value.toString();
+    if (typeof value === "number") {
+      return Number.isFinite(value) ? value.toString() : escapeString(value.toString());
+    }
+    if (value instanceof Date) return escapeString(value.toISOString());
+    if (value instanceof Uint8Array) return escapeString(`\\x${toHex(value)}`);
+    if (typeof value === "object") return escapeString(stringifyJson(value));
+    return escapeString(String(value));
+  },
+  getTableName: (table) => {
+    const config = getTableConfig(table as PgTable);
+    return `"${config.schema ?? "public"}"."${config.name}"`;
+  },
+  defaultValue: "DEFAULT",
+  renderInsertOverride: (columns) =>
+    columns.some((col) => col.generatedIdentity?.type === "always")
+      ? "OVERRIDING SYSTEM VALUE"
+      : undefined,
+  renderSequenceResync: (tableName, columnName, lastValue) =>
+    `SELECT setval(pg_get_serial_sequence(${escapeString(tableName)}, ${escapeString(columnName)}), ${lastValue});\n`,
+};
+
+/**
+ * Renders the seed as a SQL script of INSERT statements instead of executing it.
+ * Refs are resolved the same way as in `seed`. Serial, identity and `defaultRandom()` keys
+ * are inserted explicitly, followed by `setval` calls moving the sequences past them.
+ */
+export const toSql = async <
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+>(
+  generator: PgGenerator<schema, tableOrder, refs>,
+  { output, casing, ...seedOptions }: ToSqlOptions,
+): Promise<void> => {
+  const script = createSqlScript(pgDialect, { output, casing });
+
+  try {
+    await seed(script.db, generator, seedOptions);
+    await script.finish();
+  } finally {
+    await script.close();
+  }
+};
@@ -16,6 +16,28 @@ export const isGeneratedAsPlaceholder = (
   "_tag" in placeholder &&
   placeholder._tag === "GeneratedAsPlaceholder";
 
+/**
+ * Marks a column the database assigns on insert (serial, identity, sql default),
+ * it is left out of the insert and its value is read back for refs.
+ */
+export type DatabaseDefaultPlaceholder = {
+  readonly _tag: "DatabaseDefaultPlaceholder";
+};
+
+export const databaseDefaultPlaceholder = (): DatabaseDefaultPlaceholder => {
+  return {
+    _tag: "DatabaseDefaultPlaceholder",
+  };
+};
+
+export const isDatabaseDefaultPlaceholder = (
+  placeholder: unknown,
+): placeholder is DatabaseDefaultPlaceholder =>
+  typeof placeholder === "object" &&
+  placeholder !== null &&
+  "_tag" in placeholder &&
+  placeholder._tag === "DatabaseDefaultPlaceholder";
+
 export type ColumnValueReference<returnType> = {
   _tag: "ColumnValueReference";
   refColumnName: string;
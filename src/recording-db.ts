@@ -0,0 +1,228 @@
+import { createWriteStream } from "fs";
+import type { Writable } from "stream";
+import { getTableColumns, type Column, type SQL, type Table } from "drizzle-orm";
+import { deriveSeed } from "./faker";
+
+// conflict clause of an insert, rows conflicting on `target` are updated with `set` or skipped
+export type InsertConflict = {
+  target?: Column | Column[];
+  set?: Record<string, unknown>;
+};
+
+type RecordingInsert = Promise<void> & {
+  returning: (fields: Record<string, Column>) => Promise<Record<string, unknown>[]>;
+  $returningId: () => Promise<Record<string, unknown>[]>;
+  onConflictDoNothing: (config?: { target?: Column | Column[] }) => RecordingInsert;
+  onConflictDoUpdate: (config: {
+    target: Column | Column[];
+    set: Record<string, unknown>;
+  }) => RecordingInsert;
+};
+
+// last key value of a database assigned column, recordings continue from it
+export type AssignedKey = {
+  table: Table;
+  columnKey: string;
+  column: Column;
+  lastValue: number;
+  isAssigned: boolean;
+};
+
+export type RecordingDb = {
+  insert: (table: Table) => {
+    values: (rows: Record<string, unknown>[]) => RecordingInsert;
+  };
+  update: (table: Table) => {
+    set: (values: Record<string, unknown>) => {
+      where: (where: SQL | undefined) => Promise<void>;
+    };
+  };
+};
+
+// uuid v4 layout of hashes of `keys`, the same keys always give the same uuid
+const toUuid = (...keys: Array<string | number>) => {
+  const hex = [0, 1, 2, 3]
+    .map((part) =>
+      deriveSeed(0, ...keys, part)
+        .toString(16)
+        .padStart(8, "0"),
+    )
+    .join("");
+  const variant = ((parseInt(hex[16]!, 16) & 0x3) | 0x8).toString(16);
+
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+/**
+ * Creates an object mimicking the inserts of a drizzle database, handing every batch to `record`
+ * instead of executing it. Inserted values are handed back as returned rows, so refs resolve
+ * the same way as in `seed`. Updates of deferred columns go to `recordUpdate`, if supported.
+ * Integer and uuid keys left to the database (serial, identity, `defaultRandom()`) are assigned
+ * in the recording instead, integers counting up from the largest value of the column.
+ */
+export const createRecordingDb = (
+  record: (
+    table: Table,
+    rows: Record<string, unknown>[],
+    conflict?: InsertConflict,
+  ) => Promise<void>,
+  describeTable: (table: Table) => string,
+  recordUpdate?: (table: Table, values: Record<string, unknown>, where: SQL) => Promise<void>,
+): RecordingDb & { getAssignedKeys: () => AssignedKey[] } => {
+  const assignedKeys = new Map<Table, Map<string, AssignedKey>>();
+
+  const getAssignedKey = (table: Table, columnKey: string, column: Column) => {
+    let tableKeys = assignedKeys.get(table);
+    if (!tableKeys) {
+      tableKeys = new Map();
+      assignedKeys.set(table, tableKeys);
+    }
+
+    let assignedKey = tableKeys.get(columnKey);
+    if (!assignedKey) {
+      assignedKey = { table, columnKey, column, lastValue: 0, isAssigned: false };
+      tableKeys.set(columnKey, assignedKey);
+    }
+    return assignedKey;
+  };
+
+  const assignKeys = (table: Table, rows: Record<string, unknown>[]) => {
+    const columns = Object.entries(getTableColumns(table)).filter(([, column]) => {
+      const { primary, generatedIdentity, autoIncrement, columnType } = column as Column & {
+        autoIncrement?: boolean;
+      };
+      return (
+        !column.generated &&
+        (primary || !!generatedIdentity || !!autoIncrement || columnType.includes("Serial"))
+      );
+    });
+
+    return rows.map((row) => {
+      const assigned: Record<string, unknown> = {};
+
+      for (const [columnKey, column] of columns) {
+        const [type, constraint] = column.dataType.split(" ");
+        const isInteger = type === "number" || type === "bigint";
+        if (!isInteger && !(type === "string" && constraint === "uuid")) continue;
+
+        const value = row[columnKey];
+        if (columnKey in row && !isInteger) continue;
+
+        const assignedKey = getAssignedKey(table, columnKey, column);
+        if (columnKey in row) {
+          // explicit values move the counter past them
+          if (typeof value === "number" || typeof value === "bigint") {
+            assignedKey.lastValue = Math.max(assignedKey.lastValue, Number(value));
+          }
+          continue;
+        }
+
+        assignedKey.lastValue++;
+        assignedKey.isAssigned = true;
+        assigned[columnKey] =
+          type === "number"
+            ? assignedKey.lastValue
+            : type === "bigint"
+              ? BigInt(assignedKey.lastValue)
+              : toUuid(describeTable(table), columnKey, assignedKey.lastValue);
+      }
+
+      return { ...assigned, ...row };
+    });
+  };
+
+  const pickInserted = (table: Table, rows: Record<string, unknown>[], columnKeys: string[]) =>
+    rows.map((row) =>
+      Object.fromEntries(
+        columnKeys.map((columnKey) => {
+          if (!(columnKey in row)) {
+            throw new Error(
+              `Column "${columnKey}" of ${describeTable(table)} is assigned by the database and can't be referenced without inserting, refine it with an explicit value`,
+            );
+          }
+          return [columnKey, row[columnKey]];
+        }),
+      ),
+    );
+
+  return {
+    getAssignedKeys: () =>
+      Array.from(assignedKeys.values()).flatMap((tableKeys) =>
+        Array.from(tableKeys.values()).filter(
+          ({ column, isAssigned }) => isAssigned && column.dataType !== "string uuid",
+        ),
+      ),
+    insert: (table) => ({
+      values: (generatedRows) => {
+        const rows = assignKeys(table, generatedRows);
+        let conflict: InsertConflict | undefined;
+        // recorded on the next tick, conflict clauses are chained right after values
+        const recorded = Promise.resolve().then(() => record(table, rows, conflict));
+
+        const insert: RecordingInsert = Object.assign(recorded, {
+          returning: async (fields: Record<string, Column>) => {
+            await recorded;
+            return pickInserted(table, rows, Object.keys(fields));
+          },
+          // primary keys like drizzle's, refs to other auto increment columns are rejected by the
+          // mysql seeder
+          $returningId: async () => {
+            await recorded;
+            return pickInserted(
+              table,
+              rows,
+              Object.keys(rows[0] ?? {}).filter((columnKey) => (table as any)[columnKey].primary),
+            );
+          },
+          onConflictDoNothing: (config?: { target?: Column | Column[] }) => {
+            conflict = { target: config?.target };
+            return insert;
+          },
+          onConflictDoUpdate: (config: InsertConflict) => {
+            conflict = config;
+            return insert;
+          },
+        });
+
+        return insert;
+      },
+    }),
+    update: (table) => ({
+      set: (values) => ({
+        where: async (where) => {
+          if (!recordUpdate || !where) {
+            throw new Error(
+              `Rows of ${describeTable(table)} are updated after insert to fill circular foreign keys, which this recording doesn't support`,
+            );
+          }
+          await recordUpdate(table, values, where);
+        },
+      }),
+    }),
+  };
+};
+
+/**
+ * Writes to a file path or a writable stream, waiting for the stream to drain.
+ * Streams passed by the caller are left open on `close`.
+ */
+export const createStreamWriter = (output: string | Writable) => {
+  const stream = typeof output === "string" ? createWriteStream(output) : output;
+
+  return {
+    write: (chunk: string) =>
+      new Promise<void>((resolve, reject) => {
+        stream.once("error", reject);
+        const done = () => {
+          stream.off("error", reject);
+          resolve();
+        };
+        if (stream.write(chunk)) done();
+        else stream.once("drain", done);
+      }),
+    close: () =>
+      typeof output === "string"
+        ? new Promise<void>((resolve) => stream.end(resolve))
+        : Promise.resolve(),
+  };
+};
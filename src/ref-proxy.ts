@@ -0,0 +1,147 @@
+import type { Faker } from "@faker-js/faker";
+import { columnValueReference } from "./placeholders";
+
+export type RefProxyOptions = {
+  // row counts of every generated table
+  counts: Record<string, number>;
+  // faker of the column being generated, picks are drawn from it
+  getFaker: () => Faker;
+  // index of the row being generated, rows are handed out in turns by it
+  getIndex: () => number;
+};
+
+const createRowProxy = (tableName: string, rowIndex: number) =>
+  new Proxy(
+    {},
+    {
+      get: (_, columnName: string) => {
+        return (transformFn: (value: any) => any) => {
+          return columnValueReference({
+            refTableName: tableName,
+            refRowIndex: rowIndex,
+            refColumnName: columnName,
+            transformFn: transformFn,
+          });
+        };
+      },
+    },
+  );
+
+// running sums of row weights, rows are picked by a binary search over them
+const getCumulativeWeights = (
+  tableName: string,
+  rowCount: number,
+  weight: (rowIndex: number) => number,
+): number[] => {
+  const cumulative: number[] = [];
+  let total = 0;
+
+  for (let rowIndex = 0; rowIndex < rowCount; ++rowIndex) {
+    const rowWeight = weight(rowIndex);
+    if (!(rowWeight >= 0)) {
+      throw new Error(
+        `Weight of "${tableName}" row ${rowIndex} has to be non-negative, got ${rowWeight}`,
+      );
+    }
+    total += rowWeight;
+    cumulative.push(total);
+  }
+
+  if (total === 0) {
+    throw new Error(`Weights of "${tableName}" rows add up to 0`);
+  }
+  return cumulative;
+};
+
+const pickWeighted = (faker: Faker, cumulative: number[]): number => {
+  const target = faker.number.float() * cumulative[cumulative.length - 1]!;
+  let low = 0;
+  let high = cumulative.length - 1;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (cumulative[middle]! > target) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * ref.users[10].name(value => `${value.toLowerCase()}@example.com`),
+ * or a row picked by ref.users.random(), weighted(fn), zipf(exponent) and roundRobin()
+ */
+export const createRefProxy = ({ counts, getFaker, getIndex }: RefProxyOptions) => {
+  // weight functions are often created per row, so they're held weakly
+  const weightedCache = new WeakMap<(rowIndex: number) => number, Map<string, number[]>>();
+  const zipfCache = new Map<string, number[]>();
+
+  const getRowCount = (tableName: string) => {
+    const rowCount = counts[tableName] ?? 0;
+    if (rowCount === 0) {
+      throw new Error(`Can't pick a row of "${tableName}", it isn't generated or has no rows`);
+    }
+    return rowCount;
+  };
+
+  const getWeighted = (tableName: string, weight: (rowIndex: number) => number) => {
+    let tableWeights = weightedCache.get(weight);
+    if (!tableWeights) {
+      tableWeights = new Map();
+      weightedCache.set(weight, tableWeights);
+    }
+
+    let cumulative = tableWeights.get(tableName);
+    if (!cumulative) {
+      cumulative = getCumulativeWeights(tableName, getRowCount(tableName), weight);
+      tableWeights.set(tableName, cumulative);
+    }
+    return cumulative;
+  };
+
+  const getZipf = (tableName: string, exponent: number) => {
+    const key = `${tableName}:${exponent}`;
+    let cumulative = zipfCache.get(key);
+    if (!cumulative) {
+      cumulative = getCumulativeWeights(
+        tableName,
+        getRowCount(tableName),
+        (rowIndex) => 1 / (rowIndex + 1) ** exponent,
+      );
+      zipfCache.set(key, cumulative);
+    }
+    return cumulative;
+  };
+
+  return new Proxy(
+    {},
+    {
+      get: (_, tableName: string) => {
+        const pickers: Record<string, (...args: any[]) => unknown> = {
+          random: () =>
+            createRowProxy(
+              tableName,
+              getFaker().number.int({ min: 0, max: getRowCount(tableName) - 1 }),
+            ),
+          weighted: (weight: (rowIndex: number) => number) =>
+            createRowProxy(tableName, pickWeighted(getFaker(), getWeighted(tableName, weight))),
+          zipf: (exponent = 1) =>
+            createRowProxy(tableName, pickWeighted(getFaker(), getZipf(tableName, exponent))),
+          roundRobin: () => createRowProxy(tableName, getIndex() % getRowCount(tableName)),
+        };
+
+        return new Proxy(
+          {},
+          {
+            get: (_, key: string) =>
+              Object.hasOwn(pickers, key)
+                ? pickers[key]
+                : createRowProxy(tableName, parseInt(key, 10)),
+          },
+        );
+      },
+    },
+  );
+};
@@ -0,0 +1,123 @@
+import type { ColumnValueReference } from "./placeholders";
+
+/**
+ * Set of row indices backed by a bitmap, a bit per row up to the highest index
+ */
+export class RowIndexSet {
+  private bits = new Uint8Array(1024);
+
+  add(rowIndex: number): void {
+    const byte = rowIndex >> 3;
+    if (byte >= this.bits.length) {
+      const grown = new Uint8Array(Math.max(this.bits.length * 2, byte + 1));
+      grown.set(this.bits);
+      this.bits = grown;
+    }
+    this.bits[byte]! |= 1 << (rowIndex & 7);
+  }
+
+  has(rowIndex: number): boolean {
+    return ((this.bits[rowIndex >> 3] ?? 0) & (1 << (rowIndex & 7))) !== 0;
+  }
+}
+
+export type QueuedRow = {
+  tableName: string;
+  chunk: Record<string, unknown>;
+  rowIndex: number;
+  pendingRefs: ColumnValueReference<unknown>[];
+};
+
+/**
+ * Holds rows back until every row they reference is stored.
+ * Queued rows are indexed by the rows they wait on, so storing a row only visits rows waiting on it.
+ */
+export class RefQueue {
+  private stored = new Map<string, RowIndexSet>();
+  private waiting = new Map<string, Map<number, QueuedRow[]>>();
+  private missingCounts = new Map<QueuedRow, number>();
+  private queuedCounts = new Map<string, number>();
+
+  /**
+   * Queues the row if it references rows that aren't stored yet, returns false if it doesn't have to wait
+   */
+  add(row: QueuedRow): boolean {
+    const missingRows = new Set<string>();
+
+    for (const ref of row.pendingRefs) {
+      const key = `${ref.refTableName}[${ref.refRowIndex}]`;
+      if (missingRows.has(key) || this.isStored(ref.refTableName, ref.refRowIndex)) continue;
+      missingRows.add(key);
+
+      let waitingRows = this.waiting.get(ref.refTableName);
+      if (!waitingRows) {
+        waitingRows = new Map();
+        this.waiting.set(ref.refTableName, waitingRows);
+      }
+
+      const waitingOnRow = waitingRows.get(ref.refRowIndex);
+      if (waitingOnRow) {
+        waitingOnRow.push(row);
+      } else {
+        waitingRows.set(ref.refRowIndex, [row]);
+      }
+    }
+
+    if (missingRows.size > 0) {
+      this.missingCounts.set(row, missingRows.size);
+      this.queuedCounts.set(row.tableName, this.getQueuedCount(row.tableName) + 1);
+    }
+    return missingRows.size > 0;
+  }
+
+  /**
+   * Marks rows of a table as stored, returns queued rows that no longer wait on anything
+   */
+  markStored(tableName: string, rowIndices: number[]): QueuedRow[] {
+    let stored = this.stored.get(tableName);
+    if (!stored) {
+      stored = new RowIndexSet();
+      this.stored.set(tableName, stored);
+    }
+
+    const waitingRows = this.waiting.get(tableName);
+    const released: QueuedRow[] = [];
+
+    for (const rowIndex of rowIndices) {
+      stored.add(rowIndex);
+
+      for (const row of waitingRows?.get(rowIndex) ?? []) {
+        const missing = this.missingCounts.get(row)! - 1;
+        if (missing === 0) {
+          this.missingCounts.delete(row);
+          this.queuedCounts.set(row.tableName, this.getQueuedCount(row.tableName) - 1);
+          released.push(row);
+        } else {
+          this.missingCounts.set(row, missing);
+        }
+      }
+      waitingRows?.delete(rowIndex);
+    }
+
+    return released;
+  }
+
+  isStored(tableName: string, rowIndex: number): boolean {
+    return this.stored.get(tableName)?.has(rowIndex) ?? false;
+  }
+
+  getQueuedCount(tableName: string): number {
+    return this.queuedCounts.get(tableName) ?? 0;
+  }
+
+  /**
+   * Rows still waiting on rows that were never stored
+   */
+  getQueued(): QueuedRow[] {
+    return Array.from(this.missingCounts.keys());
+  }
+
+  get size(): number {
+    return this.missingCounts.size;
+  }
+}
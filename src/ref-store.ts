@@ -0,0 +1,156 @@
+import { randomUUID } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+import { unlinkSync } from "fs";
+import { createClient } from "@libsql/client";
+import { stringify, parse } from "devalue";
+
+export type RefStoreRow = {
+  rowIndex: number;
+  values: Record<string, unknown>;
+};
+
+/**
+ * Keeps values of referenced columns of inserted rows, keyed by table and row index,
+ * so refs of later rows can be resolved.
+ */
+export type RefStore = {
+  /**
+   * Called once before seeding with the referenced columns of every table
+   */
+  createTables: (refsConfig: Map<string, Set<string>>) => Promise<void>;
+  put: (tableName: string, rows: RefStoreRow[]) => Promise<void>;
+  /**
+   * Values of stored rows by row index, rows that aren't stored are left out
+   */
+  lookup: (
+    tableName: string,
+    rowIndices: number[],
+  ) => Promise<Map<number, Record<string, unknown>>>;
+  /**
+   * Called once seeding is done, successfully or not
+   */
+  close: () => Promise<void>;
+};
+
+/**
+ * Keeps refs in memory, fast but bounded by the process memory
+ */
+export const createMemoryRefStore = (): RefStore => {
+  const tables = new Map<string, Map<number, Record<string, unknown>>>();
+
+  return {
+    createTables: async (refsConfig) => {
+      for (const tableName of refsConfig.keys()) {
+        tables.set(tableName, new Map());
+      }
+    },
+    put: async (tableName, rows) => {
+      const table = tables.get(tableName)!;
+      for (const row of rows) {
+        table.set(row.rowIndex, row.values);
+      }
+    },
+    lookup: async (tableName, rowIndices) => {
+      const table = tables.get(tableName);
+      const found = new Map<number, Record<string, unknown>>();
+      for (const rowIndex of rowIndices) {
+        const values = table?.get(rowIndex);
+        if (values) found.set(rowIndex, values);
+      }
+      return found;
+    },
+    close: async () => {
+      tables.clear();
+    },
+  };
+};
+
+// stays below SQLite's default limit of 999 parameters
+const LIBSQL_LOOKUP_CHUNK_SIZE = 500;
+
+export type LibsqlRefStoreOptions = {
+  /**
+   * Database file, a temporary file removed on close by default
+   */
+  path?: string;
+};
+
+/**
+ * Keeps refs in a libsql database file, for seeds too big to keep in memory
+ */
+export const createLibsqlRefStore = (options: LibsqlRefStoreOptions = {}): RefStore => {
+  const path = options.path ?? join(tmpdir(), `drizzle-seeder-${randomUUID()}.db`);
+  const db = createClient({ url: `file:${path}` });
+
+  return {
+    createTables: async (refsConfig) => {
+      for (const [tableName, columns] of refsConfig) {
+        const cols = Array.from(columns)
+          .map((c) => `"${c}" TEXT`)
+          .join(", ");
+        await db.execute(
+          `CREATE TABLE IF NOT EXISTS "${tableName}" (_rowIndex INTEGER PRIMARY KEY${cols ? ", " + cols : ""})`,
+        );
+        await db.execute(
+          `CREATE INDEX IF NOT EXISTS "idx_${tableName}_rowIndex" ON "${tableName}"(_rowIndex)`,
+        );
+      }
+    },
+    put: async (tableName, rows) => {
+      if (rows.length === 0) return;
+
+      // a single write transaction per batch
+      await db.batch(
+        rows.map((row) => {
+          const columns = Object.keys(row.values);
+          return {
+            sql: `INSERT INTO "${tableName}" (_rowIndex, ${columns.map((c) => `"${c}"`).join(", ")}) VALUES (?, ${columns.map(() => "?").join(", ")})`,
+            args: [row.rowIndex, ...columns.map((col) => stringify(row.values[col]))],
+          };
+        }),
+        "write",
+      );
+    },
+    lookup: async (tableName, rowIndices) => {
+      const found = new Map<number, Record<string, unknown>>();
+
+      for (let i = 0; i < rowIndices.length; i += LIBSQL_LOOKUP_CHUNK_SIZE) {
+        const chunk = rowIndices.slice(i, i + LIBSQL_LOOKUP_CHUNK_SIZE);
+        const result = await db.execute({
+          sql: `SELECT * FROM "${tableName}" WHERE _rowIndex IN (${chunk.map(() => "?").join(", ")})`,
+          args: chunk,
+        });
+
+        for (const row of result.rows) {
+          const values: Record<string, unknown> = {};
+          for (const column of result.columns) {
+            if (column === "_rowIndex" || row[column] === null) continue;
+            values[column] = parse(row[column] as string);
+          }
+          found.set(Number(row._rowIndex), values);
+        }
+      }
+
+      return found;
+    },
+    close: async () => {
+      db.close();
+      if (!options.path) {
+        try {
+          unlinkSync(path);
+        } catch {}
+      }
+    },
+  };
+};
+
+// above this many referenced rows refs are kept in a libsql file instead of memory
+const MEMORY_REF_STORE_MAX_ROWS = 1_000_000;
+
+/**
+ * In-memory store for small seeds, libsql-backed one once referenced tables
+ * hold more than a million rows together
+ */
+export const createDefaultRefStore = (referencedRowCount: number): RefStore =>
+  referencedRowCount > MEMORY_REF_STORE_MAX_ROWS ? createLibsqlRefStore() : createMemoryRefStore();
@@ -0,0 +1,45 @@
+// dialect refine configs only share this shape
+export type RefineConfigLayer = {
+  refs: readonly string[];
+  existing?: object;
+  tables: object;
+};
+
+type TableRefineConfigLayer = {
+  columns?: object;
+};
+
+/**
+ * Layers `layer` over `base`: refs are merged, tables and existing tables are overridden
+ * key by key and columns of a table column by column. Neither config is changed.
+ */
+export const mergeRefineConfigs = <config extends RefineConfigLayer>(
+  base: config | null,
+  layer: config,
+): config => {
+  if (!base) return layer;
+
+  const baseTables = base.tables as Record<string, TableRefineConfigLayer | undefined>;
+  const layerTables = layer.tables as Record<string, TableRefineConfigLayer | undefined>;
+  const tables: Record<string, TableRefineConfigLayer | undefined> = { ...baseTables };
+
+  for (const [tableKey, tableLayer] of Object.entries(layerTables)) {
+    const baseTable = baseTables[tableKey];
+    tables[tableKey] =
+      baseTable && tableLayer
+        ? {
+            ...baseTable,
+            ...tableLayer,
+            columns: { ...baseTable.columns, ...tableLayer.columns },
+          }
+        : (tableLayer ?? baseTable);
+  }
+
+  return {
+    ...base,
+    ...layer,
+    refs: Array.from(new Set([...base.refs, ...layer.refs])),
+    existing: base.existing || layer.existing ? { ...base.existing, ...layer.existing } : undefined,
+    tables,
+  };
+};
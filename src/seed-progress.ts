@@ -0,0 +1,58 @@
+export type TableProgress = {
+  tableName: string;
+  /**
+   * Rows inserted so far
+   */
+  seededCount: number;
+  /**
+   * Rows the generator produces for the table
+   */
+  count: number;
+  /**
+   * Rows waiting on rows they reference to be inserted
+   */
+  queuedCount: number;
+  /**
+   * Milliseconds since seeding started
+   */
+  elapsedMs: number;
+};
+
+export type BatchProgress = TableProgress & {
+  batchRowCount: number;
+  batchDurationMs: number;
+};
+
+export type SeedProgress = Omit<TableProgress, "tableName">;
+
+export type SeedCallbacks = {
+  onTableStart?: (progress: TableProgress) => void;
+  onBatchFlushed?: (progress: BatchProgress) => void;
+  /**
+   * Called after every flushed batch with totals of all tables
+   */
+  onProgress?: (progress: SeedProgress) => void;
+  onTableDone?: (progress: TableProgress) => void;
+};
+
+export type TableSummary = {
+  rowCount: number;
+  batchCount: number;
+  /**
+   * Milliseconds from the first generated row of the table to its last insert
+   */
+  durationMs: number;
+};
+
+export type SeedSummary = {
+  tables: Record<string, TableSummary>;
+  rowCount: number;
+  durationMs: number;
+  /**
+   * `null` when no table is referenced
+   */
+  refStore: {
+    storedRowCount: number;
+    lookedUpRowCount: number;
+  } | null;
+};
@@ -0,0 +1,858 @@
+import { and, eq, sql, type Column, type SQL, type Table } from "drizzle-orm";
+import { CasingCache } from "drizzle-orm/casing";
+import type {
+  ConflictAction,
+  getConflictStrategy,
+  getTableInsertHooks,
+  SchemaExport,
+} from "./shared";
+import type { SchemaGenerator } from "./generate";
+import {
+  columnValueReference,
+  isColumnValueReference,
+  isDatabaseDefaultPlaceholder,
+  isGeneratedAsPlaceholder,
+  type ColumnValueReference,
+} from "./placeholders";
+import { getInsertedUniqueKey, getPrimaryKeyColumnKeys } from "./helpers";
+import { openTransaction, type OpenTransaction } from "./transaction";
+import { createDefaultRefStore, type RefStore } from "./ref-store";
+import { RefQueue } from "./ref-queue";
+import type { SeedCallbacks, SeedSummary, TableProgress } from "./seed-progress";
+
+// rows whose deferred refs are looked up at once
+const DEFERRED_UPDATE_BATCH_SIZE = 1000;
+// existing rows loaded into the ref store at once
+const EXISTING_LOAD_BATCH_SIZE = 10000;
+
+type SeederTableConfig = Parameters<typeof getInsertedUniqueKey>[1];
+
+// typed loosely, the seeder only reads what generators of every dialect share
+type AnySchemaGenerator = SchemaGenerator<any, any, any>;
+
+// parts of a drizzle database every dialect shares, inserts are left to the dialect
+export type SeederDb = {
+  update(table: Table): {
+    set(values: Record<string, unknown>): {
+      where(where: SQL | undefined): Promise<unknown>;
+    };
+  };
+  select?(fields: Record<string, Column>): {
+    from(table: Table): {
+      where(where: SQL | undefined): {
+        orderBy(...columns: Column[]): {
+          limit(limit: number): {
+            offset(offset: number): Promise<Record<string, unknown>[]>;
+          };
+        };
+      };
+    };
+  };
+  $count?(table: Table, where?: SQL): Promise<number>;
+  transaction?<T>(transaction: (tx: any) => Promise<T>): Promise<T>;
+};
+
+// seed options of every dialect, dialects without some of them leave them out of their types
+export type SeederOptions = SeedCallbacks & {
+  transaction?: boolean | "per-table";
+  onConflict?: ConflictAction;
+  refStore?: RefStore;
+  concurrency?: number;
+};
+
+export type InsertBatch<db> = {
+  executor: db;
+  tableName: string;
+  table: Table;
+  rows: Record<string, unknown>[];
+  // columns other rows reference, read back so refs point to values the database actually stored
+  refColumns: string[];
+  onConflict: getConflictStrategy<string>;
+};
+
+export type SeederDialect<db> = {
+  // bound parameters of a single statement, batch sizes are derived from it
+  maxParameters: number;
+  getTableConfig: (table: Table) => SeederTableConfig;
+  // resolves to the inserted rows, holding at least their ref columns
+  insertBatch: (batch: InsertBatch<db>) => Promise<Record<string, unknown>[]>;
+};
+
+type ReturningInsert = Promise<unknown> & {
+  returning(fields: Record<string, Column>): Promise<Record<string, unknown>[]>;
+};
+
+// inserts of dialects with RETURNING and ON CONFLICT
+export type ReturningDb = {
+  insert(table: Table): {
+    values(values: Record<string, unknown>[]): ReturningInsert & {
+      onConflictDoNothing(config?: { target?: Column[] }): ReturningInsert;
+      onConflictDoUpdate(config: { target: Column[]; set: Record<string, SQL> }): ReturningInsert;
+    };
+  };
+};
+
+export type ConflictClause = { target?: Column[]; set?: Record<string, SQL> };
+
+/**
+ * Conflict clause of the batch's strategy, null when rows can't conflict. Skipped rows whose
+ * columns are read back are touched by a no-op update instead, so RETURNING hands back the stored rows
+ */
+export const getConflictClause = (
+  { executor, table, rows, refColumns, onConflict: strategy }: InsertBatch<unknown>,
+  tableConfig: SeederTableConfig,
+): ConflictClause | null => {
+  if (strategy === "error") return null;
+
+  const readsBack = refColumns.length > 0;
+  const action = typeof strategy === "string" ? strategy : strategy.action;
+  const insertedColumnKeys = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+  // without a target, rows conflicting on any unique key are skipped
+  if (action === "skip" && !readsBack && typeof strategy === "string") {
+    return {};
+  }
+
+  const targetKeys =
+    typeof strategy === "string"
+      ? getInsertedUniqueKey(table, tableConfig, insertedColumnKeys)
+      : strategy.target;
+  // unique keys are all assigned by the database, generated rows can't conflict
+  if (!targetKeys) return null;
+  const target = targetKeys.map((columnKey) => (table as any)[columnKey] as Column);
+
+  if (action === "skip" && !readsBack) {
+    return { target };
+  }
+
+  const casing =
+    (executor as { dialect?: { casing?: CasingCache } }).dialect?.casing ?? new CasingCache();
+  // primary keys stay as stored, rows referencing them would break
+  const primaryKeyColumnKeys = getPrimaryKeyColumnKeys(table, tableConfig);
+  const updatedKeys = insertedColumnKeys.filter(
+    (columnKey) => !targetKeys.includes(columnKey) && !primaryKeyColumnKeys.includes(columnKey),
+  );
+  const setKeys = action === "update" && updatedKeys.length > 0 ? updatedKeys : targetKeys;
+
+  return {
+    target,
+    set: Object.fromEntries(
+      setKeys.map((columnKey) => [
+        columnKey,
+        sql`excluded.${sql.identifier(casing.getColumnCasing((table as any)[columnKey]))}`,
+      ]),
+    ),
+  };
+};
+
+/**
+ * Inserts the batch with `conflict`, reading ref columns back with RETURNING
+ */
+export const insertReturning = async (
+  { executor, tableName, table, rows, refColumns }: InsertBatch<ReturningDb>,
+  conflict: ConflictClause | null,
+): Promise<Record<string, unknown>[]> => {
+  const values = executor.insert(table).values(rows);
+  const query = !conflict
+    ? values
+    : conflict.set
+      ? values.onConflictDoUpdate({ target: conflict.target!, set: conflict.set })
+      : values.onConflictDoNothing({ target: conflict.target });
+
+  if (refColumns.length === 0) {
+    await query;
+    return rows;
+  }
+
+  const insertedRows = await query.returning(
+    Object.fromEntries(refColumns.map((col) => [col, (table as any)[col]])),
+  );
+
+  if (insertedRows.length !== rows.length) {
+    throw new Error(
+      `Expected ${rows.length} rows returned from "${tableName}" insert, got ${insertedRows.length}`,
+    );
+  }
+
+  return insertedRows;
+};
+
+// Per-table state for tracking batches and queued items
+type TableState = {
+  batch: Record<string, unknown>[];
+  seededCount: number;
+  batchCount: number;
+  startedAt: number;
+  durationMs: number;
+  rowIndices: number[]; // track original rowIndex for each batch item
+  batchSize: number; // computed based on column count
+  columnCount: number;
+};
+
+/**
+ * Inserts rows of a generator batch by batch, resolving refs through the ref store.
+ * Dialect seeders only differ in their `dialect`, which inserts a batch and reads back its refs.
+ */
+export class Seeder<db extends SeederDb> {
+  private refsConfig: Map<string, Set<string>>;
+  private schema: SchemaExport;
+  private generator: AnySchemaGenerator;
+  private tx: db | null = null;
+  private tableStates = new Map<string, TableState>();
+  private refQueue = new RefQueue();
+  private inFlight = new Set<Promise<void>>();
+  private counts: Record<string, number> = {};
+  private startedAt = 0;
+  private refStoreStats = { storedRowCount: 0, lookedUpRowCount: 0 };
+  private tableOrder: string[];
+  // tables whose rows are loaded from the database, with their row counts
+  private existing: Record<string, { where?: SQL }>;
+  private existingCounts: Record<string, number> = {};
+  private deferredColumns: Map<string, { columnKeys: string[]; primaryKeyColumnKeys: string[] }>;
+  // refs of deferred columns by table and row index, set once every row is stored
+  private deferredUpdates = new Map<
+    string,
+    Map<number, Record<string, ColumnValueReference<unknown>>>
+  >();
+  private tableTransaction: { tableName: string; transaction: OpenTransaction<db> } | null = null;
+
+  constructor(
+    private db: db,
+    generator: AnySchemaGenerator,
+    private options: SeederOptions,
+    private dialect: SeederDialect<db>,
+  ) {
+    this.generator = generator;
+    this.schema = generator.getSchema();
+
+    this.refsConfig = new Map();
+
+    for (const ref of generator.getRefs()) {
+      const parts = ref.split(".");
+      const table = parts[0];
+      const column = parts[1];
+      if (table && column) {
+        if (!this.refsConfig.has(table)) {
+          this.refsConfig.set(table, new Set());
+        }
+        this.refsConfig.get(table)!.add(column);
+      }
+    }
+
+    this.tableOrder = [...generator.getTableOrder()] as string[];
+    this.deferredColumns = generator.getDeferredColumns();
+
+    this.existing = (generator.getRefineConfig()?.existing ?? {}) as Record<
+      string,
+      { where?: SQL }
+    >;
+
+    // rows with deferred columns are updated by primary key
+    for (const [table, { primaryKeyColumnKeys }] of this.deferredColumns) {
+      if (!this.refsConfig.has(table)) {
+        this.refsConfig.set(table, new Set());
+      }
+      for (const column of primaryKeyColumnKeys) {
+        this.refsConfig.get(table)!.add(column);
+      }
+    }
+  }
+
+  private getBatchSizeForTable(columnCount: number): number {
+    return Math.floor(this.dialect.maxParameters / columnCount);
+  }
+
+  // eslint-ignore
+  then<TResult1 = SeedSummary, TResult2 = never>(
+    onfulfilled?: ((value: SeedSummary) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private extractRefs(chunk: Record<string, unknown>): ColumnValueReference<unknown>[] {
+    const refs: ColumnValueReference<unknown>[] = [];
+    for (const value of Object.values(chunk)) {
+      if (isColumnValueReference(value)) {
+        refs.push(value);
+      }
+    }
+    return refs;
+  }
+
+  // Looks up every ref of the batch with a single ref store query per referenced table
+  private async resolveBatch(
+    batch: Record<string, unknown>[],
+    refStore: RefStore | null,
+  ): Promise<Record<string, unknown>[]> {
+    const rowIndicesByTable = new Map<string, Set<number>>();
+
+    for (const chunk of batch) {
+      for (const ref of this.extractRefs(chunk)) {
+        if (!refStore) {
+          throw new Error(
+            `Cannot resolve ref without a ref store: ${ref.refTableName}[${ref.refRowIndex}].${ref.refColumnName}`,
+          );
+        }
+        let rowIndices = rowIndicesByTable.get(ref.refTableName);
+        if (!rowIndices) {
+          rowIndices = new Set();
+          rowIndicesByTable.set(ref.refTableName, rowIndices);
+        }
+        rowIndices.add(ref.refRowIndex);
+      }
+    }
+
+    const refValues = new Map<string, Map<number, Record<string, unknown>>>();
+    for (const [refTableName, rowIndices] of rowIndicesByTable) {
+      refValues.set(refTableName, await refStore!.lookup(refTableName, Array.from(rowIndices)));
+      this.refStoreStats.lookedUpRowCount += rowIndices.size;
+    }
+
+    return batch.map((chunk) => this.resolveChunk(chunk, refValues));
+  }
+
+  private resolveChunk(
+    chunk: Record<string, unknown>,
+    refValues: Map<string, Map<number, Record<string, unknown>>>,
+  ): Record<string, unknown> {
+    const resolved: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(chunk)) {
+      if (isColumnValueReference(value)) {
+        const refValue = refValues.get(value.refTableName)?.get(value.refRowIndex)?.[
+          value.refColumnName
+        ];
+        resolved[key] = refValue === undefined ? undefined : value.transformFn(refValue);
+      } else if (isGeneratedAsPlaceholder(value) || isDatabaseDefaultPlaceholder(value)) {
+        // Skip generated and database assigned columns - don't include in insert
+        continue;
+      } else {
+        resolved[key] = value;
+      }
+    }
+    return resolved;
+  }
+
+  private getTableRefineConfig(tableName: string): Record<string, any> | undefined {
+    return (this.generator.getRefineConfig()?.tables as Record<string, any> | undefined)?.[
+      tableName
+    ];
+  }
+
+  private async getExecutor(tableName: string): Promise<db> {
+    if (this.options.transaction !== "per-table") {
+      return this.tx ?? this.db;
+    }
+
+    // Consecutive flushes of a table share a transaction, committed once another table is flushed
+    if (!this.tableTransaction || this.tableTransaction.tableName !== tableName) {
+      await this.tableTransaction?.transaction.commit();
+      this.tableTransaction = {
+        tableName,
+        transaction: await openTransaction<db>(this.db as Required<SeederDb>),
+      };
+    }
+
+    return this.tableTransaction.transaction.tx;
+  }
+
+  private async flush(
+    tableName: string,
+    tableState: TableState,
+    refStore: RefStore | null,
+  ): Promise<void> {
+    if (tableState.batch.length === 0) return;
+
+    const flushStartedAt = performance.now();
+
+    // Rows released by this flush may land in the same table, so the batch is taken upfront
+    const { batch, rowIndices } = tableState;
+    tableState.batch = [];
+    tableState.rowIndices = [];
+
+    const table = this.schema[tableName] as Table;
+    if (!table) {
+      throw new Error(`Table "${tableName}" not found in schema`);
+    }
+
+    // Resolve all chunks in batch
+    const resolvedBatch = await this.resolveBatch(batch, refStore);
+
+    const executor = await this.getExecutor(tableName);
+    const hooks = this.getTableRefineConfig(tableName)?.hooks as
+      | getTableInsertHooks<Table, string, db>
+      | undefined;
+    const hookContext = { tableKey: tableName, table, db: executor, rowIndices };
+
+    if (hooks?.beforeInsert) {
+      await hooks.beforeInsert(resolvedBatch, hookContext);
+
+      // refs of other rows point to rows by their index in the batch
+      if (resolvedBatch.length !== batch.length) {
+        throw new Error(
+          `beforeInsert hook of "${tableName}" changed the number of rows, only row values can be changed`,
+        );
+      }
+    }
+
+    const refColumns = refStore ? Array.from(this.refsConfig.get(tableName) ?? []) : [];
+    const insertedRows = await this.dialect.insertBatch({
+      executor,
+      tableName,
+      table,
+      rows: resolvedBatch,
+      refColumns,
+      onConflict:
+        this.getTableRefineConfig(tableName)?.onConflict ?? this.options.onConflict ?? "error",
+    });
+
+    if (refStore && refColumns.length > 0) {
+      // Store ref columns for future reference resolution
+      await refStore.put(
+        tableName,
+        insertedRows.map((insertedRow, i) => ({
+          rowIndex: rowIndices[i]!,
+          values: Object.fromEntries(refColumns.map((col) => [col, insertedRow[col]])),
+        })),
+      );
+      this.refStoreStats.storedRowCount += batch.length;
+
+      // Rows waiting on the stored rows can be inserted now
+      for (const queued of this.refQueue.markStored(tableName, rowIndices)) {
+        const queuedTableState = this.tableStates.get(queued.tableName)!;
+        queuedTableState.batch.push(queued.chunk);
+        queuedTableState.rowIndices.push(queued.rowIndex);
+      }
+    }
+
+    await hooks?.afterInsert?.(
+      resolvedBatch.map((row, i) => ({ ...row, ...insertedRows[i] })),
+      hookContext,
+    );
+
+    tableState.seededCount += batch.length;
+    tableState.batchCount++;
+    this.reportBatch(tableName, tableState, batch.length, performance.now() - flushStartedAt);
+  }
+
+  // Starts a flush once fewer than `concurrency` flushes are running, flushes run one by one by default
+  private async scheduleFlush(
+    tableName: string,
+    tableState: TableState,
+    refStore: RefStore | null,
+  ): Promise<void> {
+    if ((this.options.concurrency ?? 1) <= 1) {
+      return this.flush(tableName, tableState, refStore);
+    }
+
+    while (this.inFlight.size >= this.options.concurrency!) {
+      await Promise.race(this.inFlight);
+    }
+
+    const flush = this.flush(tableName, tableState, refStore).finally(() =>
+      this.inFlight.delete(flush),
+    );
+    // failures surface through Promise.race and waitForFlushes
+    flush.catch(() => {});
+    this.inFlight.add(flush);
+  }
+
+  private async waitForFlushes(): Promise<void> {
+    await Promise.all(this.inFlight);
+  }
+
+  // Flushes full batches until none is left, flushing a table can fill batches of rows waiting on it
+  private async flushFullBatches(refStore: RefStore | null): Promise<void> {
+    let flushed = true;
+
+    while (flushed) {
+      flushed = false;
+      for (const [tableName, tableState] of this.tableStates) {
+        if (tableState.batch.length >= tableState.batchSize) {
+          await this.scheduleFlush(tableName, tableState, refStore);
+          flushed = true;
+        }
+      }
+    }
+  }
+
+  // Refs to rows generated later in nullable cyclic columns are inserted as NULL and updated later,
+  // rows waiting on them would never be released
+  private deferRefs(tableName: string, rowIndex: number, chunk: Record<string, unknown>): void {
+    const deferred = this.deferredColumns.get(tableName);
+    if (!deferred) return;
+
+    const order = this.tableOrder.indexOf(tableName);
+
+    for (const columnKey of deferred.columnKeys) {
+      const value = chunk[columnKey];
+      if (!isColumnValueReference(value)) continue;
+
+      // existing rows are stored before anything is generated
+      if (value.refTableName in this.existing) continue;
+
+      const refOrder = this.tableOrder.indexOf(value.refTableName);
+      if (refOrder < order || (refOrder === order && value.refRowIndex < rowIndex)) continue;
+
+      chunk[columnKey] = null;
+
+      let rowUpdates = this.deferredUpdates.get(tableName);
+      if (!rowUpdates) {
+        rowUpdates = new Map();
+        this.deferredUpdates.set(tableName, rowUpdates);
+      }
+      rowUpdates.set(rowIndex, { ...rowUpdates.get(rowIndex), [columnKey]: value });
+    }
+  }
+
+  // Sets deferred columns once every row is stored, an update per row matched by its primary key
+  private async runDeferredUpdates(refStore: RefStore | null): Promise<void> {
+    for (const [tableName, rowUpdates] of this.deferredUpdates) {
+      const table = this.schema[tableName] as Table;
+      const { primaryKeyColumnKeys } = this.deferredColumns.get(tableName)!;
+      const rowIndices = Array.from(rowUpdates.keys());
+
+      for (let start = 0; start < rowIndices.length; start += DEFERRED_UPDATE_BATCH_SIZE) {
+        const batchRowIndices = rowIndices.slice(start, start + DEFERRED_UPDATE_BATCH_SIZE);
+        const values = await this.resolveBatch(
+          batchRowIndices.map((rowIndex) => rowUpdates.get(rowIndex)!),
+          refStore,
+        );
+        const primaryKeys = await this.resolveBatch(
+          batchRowIndices.map((rowIndex) =>
+            Object.fromEntries(
+              primaryKeyColumnKeys.map((columnKey) => [
+                columnKey,
+                columnValueReference({
+                  refTableName: tableName,
+                  refRowIndex: rowIndex,
+                  refColumnName: columnKey,
+                  transformFn: (value) => value,
+                }),
+              ]),
+            ),
+          ),
+          refStore,
+        );
+
+        const executor = await this.getExecutor(tableName);
+        for (const [i, rowValues] of values.entries()) {
+          await executor
+            .update(table)
+            .set(rowValues)
+            .where(
+              and(
+                ...primaryKeyColumnKeys.map((columnKey) =>
+                  eq((table as any)[columnKey], primaryKeys[i]![columnKey]),
+                ),
+              ),
+            );
+        }
+      }
+    }
+  }
+
+  // Existing rows are counted upfront, generated rows pick from them by index
+  private async countExisting(): Promise<void> {
+    const executor = this.tx ?? this.db;
+    this.existingCounts = {};
+
+    for (const [tableName, { where }] of Object.entries(this.existing)) {
+      if (!executor.$count || !executor.select) {
+        throw new Error(
+          `Existing rows of "${tableName}" can't be loaded, the database doesn't support selects`,
+        );
+      }
+      this.existingCounts[tableName] = await executor.$count(
+        this.schema[tableName] as Table,
+        where,
+      );
+    }
+
+    this.generator.setExistingCounts(this.existingCounts);
+  }
+
+  // Loads referenced columns of existing rows into the ref store, ordered by primary key
+  // so row indices are stable between runs
+  private async loadExisting(refStore: RefStore): Promise<void> {
+    const executor = this.tx ?? this.db;
+
+    for (const [tableName, { where }] of Object.entries(this.existing)) {
+      const table = this.schema[tableName] as Table;
+      const refColumns = Array.from(this.refsConfig.get(tableName)!);
+      const primaryKeyColumnKeys = getPrimaryKeyColumnKeys(
+        table,
+        this.dialect.getTableConfig(table),
+      );
+      const orderBy = (primaryKeyColumnKeys.length > 0 ? primaryKeyColumnKeys : refColumns).map(
+        (columnKey) => (table as any)[columnKey] as Column,
+      );
+      const count = this.existingCounts[tableName]!;
+
+      for (let start = 0; start < count; start += EXISTING_LOAD_BATCH_SIZE) {
+        const rows = await executor.select!(
+          Object.fromEntries(refColumns.map((col) => [col, (table as any)[col]])),
+        )
+          .from(table)
+          .where(where)
+          .orderBy(...orderBy)
+          .limit(EXISTING_LOAD_BATCH_SIZE)
+          .offset(start);
+
+        await refStore.put(
+          tableName,
+          rows.map((values, i) => ({ rowIndex: start + i, values })),
+        );
+        this.refStoreStats.storedRowCount += rows.length;
+        this.refQueue.markStored(
+          tableName,
+          rows.map((_, i) => start + i),
+        );
+      }
+    }
+  }
+
+  private getTableProgress(tableName: string, tableState: TableState): TableProgress {
+    return {
+      tableName,
+      seededCount: tableState.seededCount,
+      count: this.counts[tableName] ?? 0,
+      queuedCount: this.refQueue.getQueuedCount(tableName),
+      elapsedMs: performance.now() - this.startedAt,
+    };
+  }
+
+  private reportBatch(
+    tableName: string,
+    tableState: TableState,
+    batchRowCount: number,
+    batchDurationMs: number,
+  ): void {
+    const { onBatchFlushed, onProgress, onTableDone } = this.options;
+    const progress = this.getTableProgress(tableName, tableState);
+
+    onBatchFlushed?.({ ...progress, batchRowCount, batchDurationMs });
+    onProgress?.({
+      seededCount: Array.from(this.tableStates.values()).reduce(
+        (sum, state) => sum + state.seededCount,
+        0,
+      ),
+      count: Object.values(this.counts).reduce((sum, count) => sum + count, 0),
+      queuedCount: this.refQueue.size,
+      elapsedMs: progress.elapsedMs,
+    });
+
+    if (progress.seededCount === progress.count) {
+      tableState.durationMs = performance.now() - tableState.startedAt;
+      onTableDone?.(progress);
+    }
+  }
+
+  private getSummary(refStore: RefStore | null): SeedSummary {
+    const tables = Object.fromEntries(
+      Array.from(this.tableStates, ([tableName, tableState]) => [
+        tableName,
+        {
+          rowCount: tableState.seededCount,
+          batchCount: tableState.batchCount,
+          durationMs: tableState.durationMs,
+        },
+      ]),
+    );
+
+    return {
+      tables,
+      rowCount: Object.values(tables).reduce((sum, table) => sum + table.rowCount, 0),
+      durationMs: performance.now() - this.startedAt,
+      refStore: refStore ? { ...this.refStoreStats } : null,
+    };
+  }
+
+  private getUnresolvedRefsError(): string {
+    const errors: string[] = [];
+
+    for (const queued of this.refQueue.getQueued()) {
+      for (const ref of queued.pendingRefs) {
+        if (this.refQueue.isStored(ref.refTableName, ref.refRowIndex)) continue;
+        errors.push(
+          `${queued.tableName}[${queued.rowIndex}] → ${ref.refTableName}[${ref.refRowIndex}].${ref.refColumnName}`,
+        );
+      }
+    }
+
+    return `Failed to resolve refs (possible circular dependency):\n${errors.join("\n")}`;
+  }
+
+  private async execute(): Promise<SeedSummary> {
+    const { transaction } = this.options;
+
+    const referencedTables = new Set(this.generator.getRefs().map((ref) => ref.split(".")[0]));
+    for (const tableName of Object.keys(this.existing)) {
+      if (!referencedTables.has(tableName)) {
+        throw new Error(
+          `Existing rows of "${tableName}" are never referenced, add its columns to refs or drop it from existing`,
+        );
+      }
+    }
+
+    if (transaction && !this.db.transaction) {
+      throw new Error("Database does not support transactions");
+    }
+
+    if (transaction && (this.options.concurrency ?? 1) > 1) {
+      throw new Error(
+        "Concurrent inserts can't share a transaction, use either concurrency or transaction",
+      );
+    }
+
+    if (transaction === true) {
+      // Errors thrown inside the callback roll back every inserted table
+      return this.db.transaction!(async (tx) => {
+        this.tx = tx;
+        try {
+          return await this.run();
+        } finally {
+          this.tx = null;
+        }
+      });
+    }
+
+    try {
+      const summary = await this.run();
+      await this.tableTransaction?.transaction.commit();
+      return summary;
+    } catch (error) {
+      await this.tableTransaction?.transaction.rollback();
+      throw error;
+    } finally {
+      this.tableTransaction = null;
+    }
+  }
+
+  private async run(): Promise<SeedSummary> {
+    // Check if refs exist - if not, skip the ref store entirely
+    const hasRefs = this.refsConfig.size > 0;
+
+    let refStore: RefStore | null = null;
+
+    this.startedAt = performance.now();
+    await this.countExisting();
+    const counts = this.generator.getCounts() as Record<string, number>;
+    // existing rows aren't seeded, they only count towards the ref store size
+    this.counts = Object.fromEntries(
+      Object.entries(counts).filter(([tableName]) => !(tableName in this.existing)),
+    );
+    this.refStoreStats = { storedRowCount: 0, lookedUpRowCount: 0 };
+
+    if (hasRefs) {
+      refStore =
+        this.options.refStore ??
+        createDefaultRefStore(
+          Array.from(this.refsConfig.keys()).reduce((sum, table) => sum + (counts[table] ?? 0), 0),
+        );
+      await refStore.createTables(this.refsConfig);
+    }
+
+    this.tableStates = new Map();
+    this.refQueue = new RefQueue();
+    this.deferredUpdates = new Map();
+    this.inFlight = new Set();
+    const tableStates = this.tableStates;
+
+    if (refStore) {
+      await this.loadExisting(refStore);
+    }
+
+    try {
+      const rowIndexByTable = new Map<string, number>();
+      let previousTableName: string | null = null;
+
+      // Process generator stream
+      for (const chunk of this.generator) {
+        const tableName = (chunk as any)._tag as string;
+
+        // Flush the previous table once the stream moves on, so its rows can be referenced
+        // and its per-table transaction committed
+        if (previousTableName !== null && previousTableName !== tableName) {
+          await this.scheduleFlush(
+            previousTableName,
+            tableStates.get(previousTableName)!,
+            refStore,
+          );
+          await this.flushFullBatches(refStore);
+        }
+        previousTableName = tableName;
+
+        // Remove _tag from chunk before processing
+        const { _tag, ...chunkData } = chunk as Record<string, unknown>;
+
+        // Initialize table state if needed (compute batch size from first chunk)
+        if (!tableStates.has(tableName)) {
+          const columnCount = Object.keys(chunkData).length;
+          tableStates.set(tableName, {
+            batch: [],
+            seededCount: 0,
+            batchCount: 0,
+            startedAt: performance.now(),
+            durationMs: 0,
+            rowIndices: [],
+            columnCount,
+            batchSize: this.getBatchSizeForTable(columnCount),
+          });
+          rowIndexByTable.set(tableName, 0);
+          this.options.onTableStart?.(
+            this.getTableProgress(tableName, tableStates.get(tableName)!),
+          );
+        }
+
+        const tableState = tableStates.get(tableName)!;
+        const rowIndex = rowIndexByTable.get(tableName)!;
+        rowIndexByTable.set(tableName, rowIndex + 1);
+
+        // Extract refs from chunk
+        this.deferRefs(tableName, rowIndex, chunkData);
+        const refs = this.extractRefs(chunkData);
+
+        // Rows referencing rows that aren't stored yet wait in the queue
+        if (
+          !hasRefs ||
+          refs.length === 0 ||
+          !this.refQueue.add({ tableName, chunk: chunkData, rowIndex, pendingRefs: refs })
+        ) {
+          tableState.batch.push(chunkData);
+          tableState.rowIndices.push(rowIndex);
+        }
+
+        // Flush if batch is full
+        if (tableState.batch.length >= tableState.batchSize) {
+          await this.scheduleFlush(tableName, tableState, refStore);
+          await this.flushFullBatches(refStore);
+        }
+      }
+
+      // FINALIZE: Flush all remaining batches, until flushing releases no more queued rows
+      let hasBatches = true;
+      while (hasBatches) {
+        for (const [tableName, tableState] of tableStates) {
+          if (tableState.batch.length > 0) {
+            await this.scheduleFlush(tableName, tableState, refStore);
+          }
+        }
+        await this.waitForFlushes();
+        hasBatches = Array.from(tableStates.values()).some((state) => state.batch.length > 0);
+      }
+
+      // Check for stuck items (circular dependencies)
+      if (this.refQueue.size > 0) {
+        throw new Error(this.getUnresolvedRefsError());
+      }
+
+      await this.runDeferredUpdates(refStore);
+
+      return this.getSummary(refStore);
+    } finally {
+      await Promise.allSettled(this.inFlight);
+      await refStore?.close();
+    }
+  }
+}
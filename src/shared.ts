@@ -1,4 +1,4 @@
-import type { Column, Table } from "drizzle-orm";
+import type { Column, InferInsertModel, Table } from "drizzle-orm";
 import type { Faker } from "@faker-js/faker";
 import type { DuplicateChecker } from "./duplicate-checker";
 import type { ColumnValueReference } from "./placeholders";
@@ -21,7 +21,14 @@ export type getColumnGeneratorContext<
 > = {
   index: number;
   count: number;
+  // row counts of every generated table
+  counts: { [table in tableOrder[number]]: number };
+  schema: schema;
   faker: Faker;
+  // reference point of faker dates, the time of iteration unless pinned by the referenceDate option
+  referenceDate: Date;
+  // window built-in date generators draw from, set by the dateWindow option
+  dateWindow?: { from: Date; to: Date };
   columnDef: columnDefinition;
   self: {
     [column in getElementsBefore<columnOrder, columnKey>[number]]: inferColumnType<
@@ -29,11 +36,16 @@ export type getColumnGeneratorContext<
     >;
   };
   ref: {
-    [table in extractTableFromRef<refs[number]>]: Array<{
-      [column in extractColumnFromRef<Extract<refs[number], `${table}.${string}`>>]: <T>(
-        cb: (value: inferColumnType<schema[table][column]>) => T,
-      ) => ColumnValueReference<T>;
-    }>;
+    [table in extractTableFromRef<refs[number]>]: Array<getRefRow<schema, refs, table>> &
+      RefRowPickers<getRefRow<schema, refs, table>>;
+  };
+  // row of the table this table is counted per, set for tables with a fan-out count
+  parent?: {
+    tableKey: string;
+    index: number;
+    ref: {
+      [column: string]: <T>(cb: (value: any) => T) => ColumnValueReference<T>;
+    };
   };
   // something like [_]['isUnique'] on drizzle column would be cool to have
   duplicateChecker?: DuplicateChecker<unknown>;
@@ -42,6 +54,30 @@ export type getColumnGeneratorContext<
   columnKey: columnKey;
 };
 
+export type getRefRow<
+  schema extends SchemaExport,
+  refs extends string[],
+  table extends keyof schema,
+> = {
+  [column in extractColumnFromRef<Extract<refs[number], `${table & string}.${string}`>>]: <T>(
+    cb: (value: inferColumnType<schema[table][column]>) => T,
+  ) => ColumnValueReference<T>;
+};
+
+/**
+ * Pick rows of a referenced table by its row count, deterministic under the generator seed
+ */
+export type RefRowPickers<row> = {
+  // any row with the same probability
+  random(): row;
+  // rows with probability proportional to their weight
+  weighted(weight: (rowIndex: number) => number): row;
+  // earlier rows more often, the n-th row with probability proportional to 1 / n^exponent
+  zipf(exponent?: number): row;
+  // rows in turns, by index of the generated row
+  roundRobin(): row;
+};
+
 export type getPossibleRefs<
   schema extends SchemaExport,
   tableOrder extends readonly getTablesFromSchemaExport<schema>[],
@@ -78,3 +114,42 @@ export type getColumnsWithoutGeneratedAs<table extends Table> = {
 export type inferColumnType<column extends Column> = column["_"]["notNull"] extends false
   ? column["_"]["data"] | null
   : column["_"]["data"];
+
+export type getInsertHookContext<table extends Table, tableKey, db> = {
+  tableKey: tableKey;
+  table: table;
+  // the database or transaction the batch is inserted with
+  db: db;
+  // generated row index of every row in the batch
+  rowIndices: number[];
+};
+
+export type getTableInsertHooks<table extends Table, tableKey, db> = {
+  /**
+   * Called with resolved rows of every batch before it's inserted, rows can be changed in place
+   */
+  beforeInsert?(
+    rows: InferInsertModel<table>[],
+    ctx: getInsertHookContext<table, tableKey, db>,
+  ): void | Promise<void>;
+  /**
+   * Called with rows of every inserted batch, including values read back from the database
+   */
+  afterInsert?(
+    rows: InferInsertModel<table>[],
+    ctx: getInsertHookContext<table, tableKey, db>,
+  ): void | Promise<void>;
+};
+
+export type ConflictAction = "error" | "skip" | "update";
+
+/**
+ * What happens to rows conflicting with stored ones, on the primary key or the first unique key
+ * with generated values unless a `target` is given
+ */
+export type getConflictStrategy<columnKey> =
+  | ConflictAction
+  | {
+      action: Exclude<ConflictAction, "error">;
+      target: columnKey[];
+    };
@@ -0,0 +1,168 @@
+import type { Writable } from "stream";
+import { Column, is, Name, Param, SQL, StringChunk, type Table } from "drizzle-orm";
+import { CasingCache } from "drizzle-orm/casing";
+import {
+  createRecordingDb,
+  createStreamWriter,
+  type InsertConflict,
+  type RecordingDb,
+} from "./recording-db";
+
+export type SqlScriptOutput = string | Writable;
+
+export type SqlScriptOptions = {
+  /**
+   * File path or writable stream the script is written to
+   */
+  output: SqlScriptOutput;
+  /**
+   * Same as drizzle's `casing` option, applied to columns without explicit names
+   */
+  casing?: "snake_case" | "camelCase";
+};
+
+export type SqlScriptDialect = {
+  escapeIdentifier: (name: string) => string;
+  // receives values already mapped with column's mapToDriverValue
+  escapeValue: (value: unknown) => string;
+  getTableName: (table: Table) => string;
+  // rendered for columns some rows of a batch leave to the database
+  defaultValue: string;
+  // rendered between the column list and VALUES, e.g. to insert into identity columns
+  renderInsertOverride?: (columns: Column[]) => string | undefined;
+  // moves the sequence of a database assigned column past the keys the script inserted
+  renderSequenceResync?: (tableName: string, columnName: string, lastValue: number) => string;
+};
+
+type SqlScriptDb = RecordingDb & {
+  transaction: <T>(transaction: (tx: SqlScriptDb) => Promise<T>) => Promise<T>;
+  // same shape as drizzle's dialect, so the seeder names columns with the script's casing
+  dialect: { casing: CasingCache };
+};
+
+export const toHex = (value: Uint8Array) => Buffer.from(value).toString("hex");
+
+export const stringifyJson = (value: unknown) =>
+  JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+
+/**
+ * Creates a database rendering every insert as a SQL statement instead of executing it.
+ * `finish` renders the statements resyncing sequences once the seed is done.
+ */
+export const createSqlScript = (dialect: SqlScriptDialect, options: SqlScriptOptions) => {
+  const writer = createStreamWriter(options.output);
+  const casing = new CasingCache(options.casing);
+
+  const renderValue = (value: unknown, column: unknown) =>
+    dialect.escapeValue(
+      value === null || value === undefined
+        ? null
+        : is(column, Column)
+          ? column.mapToDriverValue(value)
+          : value,
+    );
+
+  // renders conditions and conflict updates built by the seeder
+  const renderSql = (chunk: unknown): string => {
+    if (is(chunk, SQL)) return chunk.queryChunks.map(renderSql).join("");
+    if (is(chunk, StringChunk)) return chunk.value.join("");
+    if (is(chunk, Column)) return dialect.escapeIdentifier(casing.getColumnCasing(chunk));
+    if (is(chunk, Name)) return dialect.escapeIdentifier(chunk.value);
+    if (is(chunk, Param)) return renderValue(chunk.value, chunk.encoder);
+    throw new Error(`Can't render ${String(chunk)} in a SQL script`);
+  };
+
+  const renderColumnName = (table: Table, columnKey: string) =>
+    dialect.escapeIdentifier(casing.getColumnCasing((table as any)[columnKey] as Column));
+
+  const renderConflict = (table: Table, conflict: InsertConflict) => {
+    const target = [conflict.target ?? []]
+      .flat()
+      .map((col) => dialect.escapeIdentifier(casing.getColumnCasing(col)));
+    const action = conflict.set
+      ? `DO UPDATE SET ${Object.entries(conflict.set)
+          .map(
+            ([columnKey, value]) => `${renderColumnName(table, columnKey)} = ${renderSql(value)}`,
+          )
+          .join(", ")}`
+      : "DO NOTHING";
+
+    return ` ON CONFLICT ${target.length > 0 ? `(${target.join(", ")}) ` : ""}${action}`;
+  };
+
+  const renderInsert = (
+    table: Table,
+    rows: Record<string, unknown>[],
+    conflict?: InsertConflict,
+  ) => {
+    const columnKeys = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+    const columns = columnKeys.map((columnKey) => (table as any)[columnKey] as Column);
+    const columnNames = columns.map((col) => dialect.escapeIdentifier(casing.getColumnCasing(col)));
+
+    const values = rows.map(
+      (row) =>
+        `(${columnKeys
+          .map((columnKey, i) => {
+            if (!(columnKey in row)) return dialect.defaultValue;
+            const value = row[columnKey];
+            return dialect.escapeValue(
+              value === null || value === undefined ? null : columns[i]!.mapToDriverValue(value),
+            );
+          })
+          .join(", ")})`,
+    );
+
+    const override = dialect.renderInsertOverride?.(columns);
+
+    return `INSERT INTO ${dialect.getTableName(table)} (${columnNames.join(", ")})${override ? ` ${override}` : ""} VALUES\n  ${values.join(",\n  ")}${conflict ? renderConflict(table, conflict) : ""};\n`;
+  };
+
+  const renderUpdate = (table: Table, values: Record<string, unknown>, where: SQL) => {
+    const assignments = Object.entries(values).map(
+      ([columnKey, value]) =>
+        `${renderColumnName(table, columnKey)} = ${renderValue(value, (table as any)[columnKey])}`,
+    );
+
+    return `UPDATE ${dialect.getTableName(table)} SET ${assignments.join(", ")} WHERE ${renderSql(where)};\n`;
+  };
+
+  const recordingDb = createRecordingDb(
+    (table, rows, conflict) => writer.write(renderInsert(table, rows, conflict)),
+    dialect.getTableName,
+    (table, values, where) => writer.write(renderUpdate(table, values, where)),
+  );
+
+  // keys assigned in the script are inserted explicitly, sequences have to catch up with them
+  const finish = async () => {
+    if (!dialect.renderSequenceResync) return;
+
+    for (const { table, column, lastValue } of recordingDb.getAssignedKeys()) {
+      await writer.write(
+        dialect.renderSequenceResync(
+          dialect.getTableName(table),
+          casing.getColumnCasing(column),
+          lastValue,
+        ),
+      );
+    }
+  };
+
+  const db: SqlScriptDb = {
+    insert: recordingDb.insert,
+    update: recordingDb.update,
+    dialect: { casing },
+    transaction: async (transaction) => {
+      await writer.write("BEGIN;\n");
+      try {
+        const result = await transaction(db);
+        await writer.write("COMMIT;\n");
+        return result;
+      } catch (error) {
+        await writer.write("ROLLBACK;\n");
+        throw error;
+      }
+    },
+  };
+
+  return { db, finish, close: writer.close };
+};
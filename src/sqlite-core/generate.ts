@@ -1,32 +1,23 @@
-import { DuplicateChecker } from "../duplicate-checker";
+import { is, type SQL } from "drizzle-orm";
 import type {
   getColumnGeneratorContext,
   getPossibleRefs,
   SchemaExport,
   getColumnsWithoutGeneratedAs,
+  getConflictStrategy,
+  getTableInsertHooks,
   getTablesFromSchemaExport,
   inferColumnType,
 } from "../shared";
-import { RefinedGenerator, type BaseGenerator } from "../generators";
-import { faker } from "../faker";
-import { getColumnNameToTsKeyMap } from "../helpers";
-import { getTableConfig, SQLiteTable } from "drizzle-orm/sqlite-core";
-import {
-  columnValueReference,
-  generatedAsPlaceholder,
-  type ColumnValueReference,
-  type GeneratedAsPlaceholder,
-} from "../placeholders";
+import type { LocaleDefinition } from "../faker";
+import { mergeRefineConfigs } from "../refine-config";
+import type { getFanOutCount } from "../fan-out";
+import { getTableConfig, SQLiteTable, type BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
+import type { ColumnValueReference } from "../placeholders";
+import { SchemaGenerator, type GeneratorDialect, type getGenerateOptions } from "../generate";
 import { DefaultGenerator } from "./generators/default.generator";
 
-export type getGenerateOptions<
-  schema extends SchemaExport,
-  tableOrder extends readonly getTablesFromSchemaExport<schema>[],
-> = {
-  tableOrder: tableOrder;
-  seed?: number;
-  generator?: BaseGenerator;
-};
+export type { getGenerateOptions, inferGeneratorStreamChunk } from "../generate";
 
 export type getTableRefineConfig<
   schema extends SchemaExport,
@@ -36,8 +27,28 @@ export type getTableRefineConfig<
   columnOrder extends readonly getColumnsWithoutGeneratedAs<schema[tableKey]>[],
   refs extends Array<getPossibleRefs<schema, tableOrder>>,
 > = {
-  count?: number;
+  /**
+   * Row count of the table, or row count under every row of another table
+   */
+  count?: number | getFanOutCount<tableOrder[number]>;
   columnOrder?: columnOrder;
+  /**
+   * Overrides the `locale` generate option for the table
+   */
+  locale?: LocaleDefinition | LocaleDefinition[];
+  /**
+   * Literal rows emitted before generated ones and counted toward `count`,
+   * columns left out are generated
+   */
+  rows?: Array<{
+    [columnKey in getColumnsWithoutGeneratedAs<schema[tableKey]>]?: inferColumnType<
+      schema[tableKey][columnKey]
+    >;
+  }>;
+  /**
+   * Overrides the `onConflict` seed option for the table
+   */
+  onConflict?: getConflictStrategy<getColumnsWithoutGeneratedAs<schema[tableKey]>>;
   columns?: {
     [columnKey in getColumnsWithoutGeneratedAs<schema[tableKey]>]?: (
       ctx: getColumnGeneratorContext<
@@ -54,6 +65,7 @@ export type getTableRefineConfig<
       | inferColumnType<schema[tableKey][columnKey]>
       | ColumnValueReference<inferColumnType<schema[tableKey][columnKey]>>;
   };
+  hooks?: getTableInsertHooks<schema[tableKey], tableKey, BaseSQLiteDatabase<any, any>>;
 };
 
 export type getRefineConfig<
@@ -62,6 +74,12 @@ export type getRefineConfig<
   refs extends Array<getPossibleRefs<schema, tableOrder>>,
 > = {
   refs: refs;
+  /**
+   * Tables whose rows are loaded from the database instead of generated, so refs can point to them
+   */
+  existing?: {
+    [tableKey in getTablesFromSchemaExport<schema>]?: { where?: SQL };
+  };
   tables: {
     [tableKey in tableOrder[number]]?: getTableRefineConfig<
       schema,
@@ -74,153 +92,41 @@ export type getRefineConfig<
   };
 };
 
-export type inferGeneratorStreamChunk<
-  schema extends SchemaExport,
-  tableOrder extends readonly getTablesFromSchemaExport<schema>[],
-> = {
-  [tableKey in tableOrder[number]]: {
-    [columnKey in keyof schema[tableKey]["_"]["columns"]]:
-      | inferColumnType<schema[tableKey][columnKey]>
-      | ColumnValueReference<inferColumnType<schema[tableKey][columnKey]>>
-      | GeneratedAsPlaceholder;
-  } & {
-    _tag: tableKey;
-  };
-}[tableOrder[number]];
-
-const createRefProxy = () => {
-  // ref.users[10].name(value => `${value.toLowerCase()}@example.com`)
-  return new Proxy(
-    {},
-    {
-      get: (_, tableName: string) => {
-        return new Proxy(
-          {},
-          {
-            get: (_, rowIndex: string) => {
-              return new Proxy(
-                {},
-                {
-                  get: (_, columnName: string) => {
-                    return (transformFn: (value: any) => any) => {
-                      return columnValueReference({
-                        refTableName: tableName,
-                        refRowIndex: parseInt(rowIndex, 10),
-                        refColumnName: columnName,
-                        transformFn: transformFn,
-                      });
-                    };
-                  },
-                },
-              );
-            },
-          },
-        );
-      },
-    },
-  );
+const sqliteDialect: GeneratorDialect = {
+  isTable: (value) => is(value, SQLiteTable),
+  getTableConfig: (table) => getTableConfig(table as SQLiteTable),
+  defaultGenerator: DefaultGenerator,
 };
 
 export class SqliteGenerator<
   schema extends SchemaExport,
   const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
   refs extends Array<getPossibleRefs<schema, tableOrder>>,
-> {
-  private config: getRefineConfig<schema, tableOrder, refs> | null = null;
-
-  constructor(
-    private schema: schema,
-    private generateOptions: getGenerateOptions<schema, tableOrder>,
-  ) {}
-
-  *[Symbol.iterator](): Generator<inferGeneratorStreamChunk<schema, tableOrder>, any, any> {
-    const { tableOrder, seed = 0, generator = DefaultGenerator } = this.generateOptions;
-
-    faker.seed(seed);
-    const tablesOrder = new Set(tableOrder);
-    const inputSchema = this.schema;
-    const config = (this.config ?? {}) as getRefineConfig<schema, tableOrder, refs>;
-
-    const refProxy = createRefProxy();
-
-    for (const tableKey of tablesOrder) {
-      const table = inputSchema[tableKey];
-      const columnNameToTsKey = getColumnNameToTsKeyMap(table);
-      const tableConf = getTableConfig(table);
-      const tableRefinements = config.tables[tableKey];
-
-      const columnOrder = new Set([
-        ...(tableRefinements?.columnOrder?.map(
-          (columnKey) => inputSchema[tableKey][columnKey].name,
-        ) ?? []),
-        ...tableConf.columns.map((col) => col.name),
-      ]) as Set<string>;
-
-      const count = tableRefinements?.count ?? 50;
-
-      const duplicateCheckers: Record<string, DuplicateChecker<unknown>> = tableConf.columns
-        .filter((col) => col.isUnique)
-        .reduce((acc, col) => ({ ...acc, [col.name]: new DuplicateChecker() }), {});
-
-      for (let index = 0; index < count; ++index) {
-        const self: Record<string, any> = {
-          _tag: tableKey,
-        };
-
-        for (const columnName of columnOrder) {
-          const columnTsKey = columnNameToTsKey[columnName]!;
-          const columnConfig = tableConf.columns.find((col) => col.name === columnName);
-
-          if (columnConfig?.generated) {
-            self[columnTsKey] = generatedAsPlaceholder();
-            continue;
-          }
-
-          if (!columnConfig) throw new Error(`No column config found for ${columnName}`);
-
-          const ctx = {
-            index,
-            count,
-            faker,
-            columnDef: columnConfig,
-            self,
-            duplicateChecker: duplicateCheckers[columnName],
-            tableKey: tableKey as string,
-            columnKey: columnTsKey,
-            ref: refProxy,
-            super: () => {
-              throw new Error("End of generator chain");
-            },
-          };
-
-          self[columnTsKey] = generator.generate(ctx);
-        }
-
-        yield self as inferGeneratorStreamChunk<schema, tableOrder>;
-      }
-    }
+> extends SchemaGenerator<schema, tableOrder, getRefineConfig<schema, tableOrder, refs>> {
+  constructor(schema: schema, generateOptions: getGenerateOptions<schema, tableOrder>) {
+    super(schema, generateOptions, sqliteDialect);
   }
 
-  refine<refineConfig extends getRefineConfig<schema, tableOrder, refs>>(config: refineConfig) {
-    this.config = config;
-    this.generateOptions.generator = (this.generateOptions.generator ?? DefaultGenerator).extend(
-      new RefinedGenerator(config),
+  /**
+   * Returns a new generator with `config` layered over the current refinements,
+   * the current generator is left as is
+   */
+  refine<refineConfig extends getRefineConfig<schema, tableOrder, refs>>(
+    config: refineConfig,
+  ): SqliteGenerator<schema, tableOrder, refs> {
+    const refined = new SqliteGenerator<schema, tableOrder, refs>(
+      this.schema,
+      this.generateOptions,
     );
-    return this;
-  }
-
-  getRefineConfig(): getRefineConfig<schema, tableOrder, refs> | null {
-    return this.config;
-  }
-
-  getSchema(): schema {
-    return this.schema;
+    refined.config = mergeRefineConfigs(this.config, config);
+    return refined;
   }
 }
 
 export function generate<
   schema extends SchemaExport,
-  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
->(schema: schema, generateOptions: getGenerateOptions<schema, tableOrder>) {
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[] =
+    getTablesFromSchemaExport<schema>[],
+>(schema: schema, generateOptions: getGenerateOptions<schema, tableOrder> = {}) {
   return new SqliteGenerator(schema, generateOptions);
 }
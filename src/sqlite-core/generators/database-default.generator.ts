@@ -0,0 +1,22 @@
+import { is, SQL } from "drizzle-orm";
+import { SQLiteInteger } from "drizzle-orm/sqlite-core";
+import { BaseGenerator, type ExtendedGeneratorContext } from "../../generators/base.generator";
+import { databaseDefaultPlaceholder } from "../../placeholders";
+
+/**
+ * Leaves integer primary keys (rowid aliases) and primary key columns with sql defaults
+ * to the database, seeders read the assigned values back for refs.
+ */
+export class DatabaseDefaultGenerator extends BaseGenerator {
+  generate(ctx: ExtendedGeneratorContext): unknown {
+    const { columnDef } = ctx;
+
+    if (columnDef.primary && (is(columnDef, SQLiteInteger) || is(columnDef.default, SQL))) {
+      return databaseDefaultPlaceholder();
+    }
+
+    return ctx.super();
+  }
+}
+
+export const DefaultDatabaseDefaultGenerator = new DatabaseDefaultGenerator();
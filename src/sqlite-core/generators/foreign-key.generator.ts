@@ -0,0 +1,19 @@
+import { getTableConfig, type SQLiteTable } from "drizzle-orm/sqlite-core";
+import {
+  ForeignKeyGenerator as SharedForeignKeyGenerator,
+  type ForeignKeyGeneratorOptions,
+} from "../../generators/foreign-key.generator";
+
+export type { ForeignKeyGeneratorOptions };
+
+/**
+ * Fills foreign key columns with references to rows of the referenced table,
+ * see the shared `ForeignKeyGenerator`
+ */
+export class ForeignKeyGenerator extends SharedForeignKeyGenerator {
+  constructor(options: ForeignKeyGeneratorOptions = {}) {
+    super((table) => getTableConfig(table as SQLiteTable), options);
+  }
+}
+
+export const DefaultForeignKeyGenerator = new ForeignKeyGenerator();
@@ -3,3 +3,12 @@ export {
   RuntimeConfigAwareGenerator,
   DefaultRuntimeConfigAwareGenerator,
 } from "./runtime-config-aware.generator";
+export {
+  ForeignKeyGenerator,
+  DefaultForeignKeyGenerator,
+  type ForeignKeyGeneratorOptions,
+} from "./foreign-key.generator";
+export {
+  DatabaseDefaultGenerator,
+  DefaultDatabaseDefaultGenerator,
+} from "./database-default.generator";
@@ -1,6 +1,7 @@
 import { is } from "drizzle-orm";
 import { SQLiteText, SQLiteTimestamp, SQLiteBoolean } from "drizzle-orm/sqlite-core";
 import { BaseGenerator, type ExtendedGeneratorContext } from "../../generators/base.generator";
+import { generateDate } from "../../generators/data-type.generator";
 
 type SqliteColumnClasses = {
   SQLiteText: InstanceType<typeof SQLiteText>;
@@ -64,7 +65,7 @@ const defaultHandlers: RuntimeConfigHandlersMap = {
 
   // Timestamp stored as integer (unix epoch)
   SQLiteTimestamp: (ctx) => {
-    const date = ctx.faker.date.anytime();
+    const date = generateDate(ctx, "anytime");
     // mode determines seconds vs milliseconds
     if (ctx.columnDef.mode === "timestamp_ms") {
       return date.getTime();
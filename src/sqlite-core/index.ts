@@ -2,3 +2,5 @@ export * from "./generators";
 export * from "./seed";
 export * from "./generate";
 export * from "./reset";
+export * from "./to-sql";
+export * from "./to-fixtures";
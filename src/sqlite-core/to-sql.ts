@@ -0,0 +1,57 @@
+import { getTableName } from "drizzle-orm";
+import type { getPossibleRefs, getTablesFromSchemaExport, SchemaExport } from "../shared";
+import {
+  createSqlScript,
+  stringifyJson,
+  toHex,
+  type SqlScriptDialect,
+  type SqlScriptOptions,
+} from "../sql-script";
+import type { SqliteGenerator } from "./generate";
+import { seed, type SeedOptions } from "./seed";
+
+export type ToSqlOptions = SqlScriptOptions & SeedOptions;
+
+const escapeString = (value: string) => `'${value.replaceAll("'", "''")}'`;
+
+const sqliteDialect: SqlScriptDialect = {
+  escapeIdentifier: (name) => `"${name.replaceAll('"', '""')}"`,
+  escapeValue: (value) => {
+    if (value === null || value === undefined) return "NULL";
+    if (typeof value === "boolean") return value ? "1" : "0";
+    if (typeof value === "bigint") return value.toString();
+    if (typeof value === "number") {
+      return Number.isFinite(value) ? value.toString() : "NULL";
+    }
+    if (value instanceof Date) return escapeString(value.toISOString());
+    if (value instanceof Uint8Array) return `X'${toHex(value)}'`;
+    if (typeof value === "object") return escapeString(stringifyJson(value));
+    return escapeString(String(value));
+  },
+  getTableName: (table) => `"${getTableName(table)}"`,
+  // sqlite has no DEFAULT keyword in VALUES lists
+  defaultValue: "NULL",
+};
+
+/**
+ * Renders the seed as a SQL script of INSERT statements instead of executing it.
+ * Refs are resolved the same way as in `seed`. Integer primary keys are inserted explicitly,
+ * rows inserted later continue after the largest of them.
+ */
+export const toSql = async <
+  schema extends SchemaExport,
+  const tableOrder extends readonly getTablesFromSchemaExport<schema>[],
+  refs extends Array<getPossibleRefs<schema, tableOrder>>,
+>(
+  generator: SqliteGenerator<schema, tableOrder, refs>,
+  { output, casing, ...seedOptions }: ToSqlOptions,
+): Promise<void> => {
+  const script = createSqlScript(sqliteDialect, { output, casing });
+
+  try {
+    await seed(script.db, generator, seedOptions);
+    await script.finish();
+  } finally {
+    await script.close();
+  }
+};
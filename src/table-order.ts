@@ -0,0 +1,56 @@
+/**
+ * Orders tables so that every table comes after the tables it depends on.
+ * Ready tables are picked in the order of `dependencies`, so the result is stable for a given schema.
+ * Self-references are ignored, as are dependencies on tables missing from the map.
+ * Circular dependencies are broken on `weakDependencies` (nullable foreign keys), the first table
+ * whose remaining dependencies are all weak goes first.
+ */
+export const sortTablesByDependencies = (
+  dependencies: Map<string, Set<string>>,
+  weakDependencies: Map<string, Set<string>> = new Map(),
+): string[] => {
+  const remaining = new Map(
+    Array.from(dependencies, ([tableKey, dependsOn]) => [
+      tableKey,
+      new Set(Array.from(dependsOn).filter((dep) => dep !== tableKey && dependencies.has(dep))),
+    ]),
+  );
+  const ordered: string[] = [];
+
+  while (remaining.size > 0) {
+    const ready =
+      Array.from(remaining.keys()).find((tableKey) => remaining.get(tableKey)!.size === 0) ??
+      Array.from(remaining.keys()).find((tableKey) =>
+        Array.from(remaining.get(tableKey)!).every((dep) =>
+          weakDependencies.get(tableKey)?.has(dep),
+        ),
+      );
+
+    if (ready === undefined) {
+      throw new Error(
+        `Cannot infer tableOrder, tables have circular foreign keys without a nullable one to break them: ${findCycle(remaining).join(" → ")}`,
+      );
+    }
+
+    ordered.push(ready);
+    remaining.delete(ready);
+    for (const dependsOn of remaining.values()) {
+      dependsOn.delete(ready);
+    }
+  }
+
+  return ordered;
+};
+
+// every remaining table has at least one remaining dependency, so following them must loop
+const findCycle = (remaining: Map<string, Set<string>>): string[] => {
+  const path: string[] = [];
+  let current = remaining.keys().next().value!;
+
+  while (!path.includes(current)) {
+    path.push(current);
+    current = remaining.get(current)!.values().next().value!;
+  }
+
+  return [...path.slice(path.indexOf(current)), current];
+};
@@ -0,0 +1,40 @@
+type TransactionalDb<tx> = {
+  transaction: <T>(transaction: (tx: tx) => Promise<T>) => Promise<T>;
+};
+
+export type OpenTransaction<tx> = {
+  tx: tx;
+  commit: () => Promise<void>;
+  rollback: () => Promise<void>;
+};
+
+/**
+ * Starts a callback-style drizzle transaction and keeps it open until `commit` or `rollback`
+ * is called, for transactions spanning several steps of a seeding run.
+ */
+export const openTransaction = <tx>(db: TransactionalDb<tx>): Promise<OpenTransaction<tx>> =>
+  new Promise((resolveOpen, rejectOpen) => {
+    const rollbackError = new Error("Rollback");
+
+    const done = db.transaction(
+      (tx) =>
+        new Promise<void>((resolve, reject) => {
+          resolveOpen({
+            tx,
+            commit: async () => {
+              resolve();
+              await done;
+            },
+            rollback: async () => {
+              reject(rollbackError);
+              await done.catch((error) => {
+                if (error !== rollbackError) throw error;
+              });
+            },
+          });
+        }),
+    );
+
+    // only rejects the open call when the transaction fails to begin
+    done.catch(rejectOpen);
+  });
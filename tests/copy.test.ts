@@ -0,0 +1,51 @@
+import { describe, expect, test } from "vitest";
+import { customType, jsonb, pgTable, text } from "drizzle-orm/pg-core";
+import { getCopyDriver, toCsvField } from "../src/pg-core/copy";
+
+describe("toCsvField", () => {
+  const bytea = customType<{ data: Buffer }>({ dataType: () => "bytea" });
+  const table = pgTable("copied", { tags: text().array(), data: jsonb(), blob: bytea() });
+
+  test("quotes text, keeping empty strings apart from NULL", () => {
+    expect(toCsvField(null)).toBe("");
+    expect(toCsvField(undefined)).toBe("");
+    expect(toCsvField("")).toBe('""');
+    expect(toCsvField('say "hi", \nbye')).toBe('"say ""hi"", \nbye"');
+    expect(toCsvField(true)).toBe("t");
+    expect(toCsvField(12n)).toBe("12");
+    expect(toCsvField(new Date("2024-01-02T03:04:05.000Z"))).toBe('"2024-01-02T03:04:05.000Z"');
+  });
+
+  test("renders bytea, arrays and json mapped by their columns", () => {
+    expect(toCsvField(Buffer.from("hi"))).toBe('"\\x6869"');
+    expect(toCsvField(table.tags.mapToDriverValue(["a", "b,c", 'd"e']))).toBe(
+      '"{""a"",""b,c"",""d\\""e""}"',
+    );
+    expect(toCsvField(table.data.mapToDriverValue({ a: [1, "x"] }))).toBe('"{""a"":[1,""x""]}"');
+    expect(toCsvField({ big: 1n })).toBe('"{""big"":""1""}"');
+  });
+});
+
+describe("getCopyDriver", () => {
+  test("detects postgres.js and node-postgres clients and pools", () => {
+    const postgresJs = Object.assign(() => {}, {
+      unsafe: () => {},
+      typed: () => {},
+      notify: () => {},
+    });
+    const query = () => {};
+
+    expect(getCopyDriver(postgresJs)).toBe("postgres.js");
+    expect(getCopyDriver({ query, connect: () => {}, connectionParameters: {} })).toBe(
+      "node-postgres",
+    );
+    expect(getCopyDriver({ query, connect: () => {}, _clients: [] })).toBe("node-postgres-pool");
+  });
+
+  test("falls back to inserts for other clients", () => {
+    expect(getCopyDriver(undefined)).toBeNull();
+    // pglite and serverless drivers have a `query` method too
+    expect(getCopyDriver({ query: () => {}, exec: () => {} })).toBeNull();
+    expect(getCopyDriver({ unsafe: () => {}, query: () => {} })).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { expect, test, describe } from "vitest";
+import { columnValueReference, CompositeDuplicateChecker } from "../src";
+
+describe("composite duplicate checker", () => {
+  test("should detect repeated combinations of values", () => {
+    const checker = new CompositeDuplicateChecker();
+
+    expect(checker.add([1, 10n])).toBe(true);
+    expect(checker.add([1, 11n])).toBe(true);
+    expect(checker.add([1, 10n])).toBe(false);
+    expect(checker.size).toEqual(2);
+  });
+
+  test("should compare refs by the row they point to", () => {
+    const checker = new CompositeDuplicateChecker();
+    const ref = (refRowIndex: number) =>
+      columnValueReference({
+        refTableName: "users",
+        refColumnName: "id",
+        refRowIndex,
+        transformFn: (v) => v,
+      });
+
+    expect(checker.add([ref(1), "admin"])).toBe(true);
+    expect(checker.add([ref(2), "admin"])).toBe(true);
+    expect(checker.add([ref(1), "admin"])).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "vitest";
+import { getTableCounts, type getFanOutCount } from "../src/fan-out";
+
+describe("getTableCounts", () => {
+  test("sums row counts drawn per parent row", () => {
+    const config: Record<string, number | getFanOutCount<string>> = {
+      authors: 3,
+      books: { per: "authors", distribution: ({ index }) => index + 1 },
+      reviews: { per: "books", min: 1, max: 2 },
+    };
+    const { counts, parentCounts } = getTableCounts(
+      ["reviews", "books", "authors"],
+      (tableKey) => config[tableKey],
+      1,
+    );
+
+    expect(parentCounts.get("books")).toEqual([1, 2, 3]);
+    expect(counts.books).toBe(6);
+    expect(parentCounts.get("reviews")).toHaveLength(6);
+    expect(counts.reviews).toBe(parentCounts.get("reviews")!.reduce((sum, n) => sum + n, 0));
+    expect(getTableCounts(["reviews", "books", "authors"], (key) => config[key], 1)).toEqual({
+      counts,
+      parentCounts,
+    });
+  });
+
+  test("draws counts of every table from its own faker with perTable", () => {
+    const getCounts = (authors: number) =>
+      getTableCounts(
+        ["authors", "books", "reviews"],
+        (tableKey) =>
+          ({
+            authors: { per: "books", max: authors },
+            books: 5,
+            reviews: { per: "books", max: 10 },
+          })[tableKey] as number | getFanOutCount<string>,
+        1,
+        true,
+      );
+
+    expect(getCounts(3).parentCounts.get("reviews")).toEqual(
+      getCounts(8).parentCounts.get("reviews"),
+    );
+  });
+
+  test("rejects tables counted per their own rows", () => {
+    expect(() =>
+      getTableCounts(["a", "b"], (tableKey) => ({ per: tableKey === "a" ? "b" : "a", max: 1 }), 0),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,129 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, describe, expect, test } from "vitest";
+import {
+  bigint,
+  customType,
+  integer,
+  pgTable,
+  serial,
+  timestamp,
+  uuid,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { generate, toFixtures } from "../src/pg-core";
+
+const bytea = customType<{ data: Buffer }>({ dataType: () => "bytea" });
+
+const users = pgTable("users", {
+  id: serial().primaryKey(),
+  big: bigint({ mode: "bigint" }).notNull(),
+  createdAt: timestamp().notNull(),
+  avatar: bytea().notNull(),
+});
+
+const teams = pgTable("teams", {
+  id: uuid().primaryKey().defaultRandom(),
+  ownerId: integer()
+    .notNull()
+    .references(() => users.id),
+});
+
+const dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const generator = generate({ users, teams }, { seed: 1 }).refine({
+  refs: [],
+  tables: {
+    users: {
+      count: 2,
+      columns: {
+        big: () => 9007199254740993n,
+        createdAt: () => new Date("2024-01-02T03:04:05.000Z"),
+        avatar: () => Buffer.from("hi"),
+      },
+    },
+    teams: { count: 2 },
+  },
+});
+
+const writeFixtures = async (format: "json" | "ndjson" | "csv") => {
+  const formatDir = join(dir, format);
+  await toFixtures(generator, { dir: formatDir, format });
+  return (tableKey: string) => readFileSync(join(formatDir, `${tableKey}.${format}`), "utf8");
+};
+
+describe("toFixtures", () => {
+  test("writes json with database assigned keys and encoded values", async () => {
+    const read = await writeFixtures("json");
+    const users = JSON.parse(read("users"));
+    const teams = JSON.parse(read("teams"));
+
+    expect(users).toEqual([
+      { id: 1, big: "9007199254740993", createdAt: "2024-01-02T03:04:05.000Z", avatar: "aGk=" },
+      { id: 2, big: "9007199254740993", createdAt: "2024-01-02T03:04:05.000Z", avatar: "aGk=" },
+    ]);
+    expect(teams).toHaveLength(2);
+    for (const team of teams) {
+      expect(team.id).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      );
+      expect([1, 2]).toContain(team.ownerId);
+    }
+    expect(teams[0].id).not.toBe(teams[1].id);
+  });
+
+  test("writes the same rows as ndjson and csv", async () => {
+    const json = await writeFixtures("json");
+    const teams = JSON.parse(json("teams"));
+    const ndjson = await writeFixtures("ndjson");
+    const csv = await writeFixtures("csv");
+
+    expect(
+      ndjson("users")
+        .trimEnd()
+        .split("\n")
+        .map((line) => JSON.parse(line)),
+    ).toEqual(JSON.parse(json("users")));
+    expect(csv("users")).toBe(
+      "id,big,createdAt,avatar\n" +
+        "1,9007199254740993,2024-01-02T03:04:05.000Z,aGk=\n" +
+        "2,9007199254740993,2024-01-02T03:04:05.000Z,aGk=\n",
+    );
+    expect(csv("teams")).toBe(
+      `id,ownerId\n${teams.map(({ id, ownerId }: any) => `${id},${ownerId}\n`).join("")}`,
+    );
+  });
+
+  test("writes deferred columns of circular references", async () => {
+    const people = pgTable("people", {
+      id: serial().primaryKey(),
+      currentTeamId: integer().references((): AnyPgColumn => crews.id),
+    });
+    const crews = pgTable("crews", {
+      id: serial().primaryKey(),
+      ownerId: integer()
+        .notNull()
+        .references(() => people.id),
+    });
+    const formatDir = join(dir, "circular");
+
+    await toFixtures(
+      generate({ people, crews }, { seed: 1 }).refine({
+        refs: [],
+        tables: { people: { count: 4 }, crews: { count: 2 } },
+      }),
+      { dir: formatDir },
+    );
+    const peopleRows = JSON.parse(readFileSync(join(formatDir, "people.json"), "utf8"));
+    const crewRows = JSON.parse(readFileSync(join(formatDir, "crews.json"), "utf8"));
+
+    expect(peopleRows.map(({ id }: any) => id)).toEqual([1, 2, 3, 4]);
+    expect(peopleRows.some(({ currentTeamId }: any) => currentTeamId !== null)).toBe(true);
+    for (const { currentTeamId } of peopleRows) {
+      if (currentTeamId !== null) expect([1, 2]).toContain(currentTeamId);
+    }
+    for (const { ownerId } of crewRows) expect([1, 2, 3, 4]).toContain(ownerId);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, test } from "vitest";
+import { de, faker, ja, type Faker } from "@faker-js/faker";
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { generate } from "../src/sqlite-core";
+
+const users = sqliteTable("users", {
+  id: integer().primaryKey(),
+  name: text().notNull(),
+  joinedAt: integer({ mode: "timestamp_ms" }).notNull(),
+});
+
+const tenants = sqliteTable("tenants", {
+  id: integer().primaryKey(),
+  city: text().notNull(),
+});
+
+const createGenerator = (seed: number, options = {}) =>
+  generate({ users, tenants }, { seed, ...options }).refine({
+    refs: [],
+    tables: {
+      users: { count: 5, columns: { name: (ctx) => ctx.faker.person.fullName() } },
+      tenants: { count: 5, columns: { city: (ctx) => ctx.faker.location.city() } },
+    },
+  });
+
+// dates generated without an argument see `now` as the current time
+const withClock = <T>(now: string, fn: () => T): T => {
+  const RealDate = Date;
+  globalThis.Date = class extends RealDate {
+    constructor(...args: any[]) {
+      super(...((args.length > 0 ? args : [now]) as [string]));
+    }
+
+    static override now() {
+      return RealDate.parse(now);
+    }
+  } as DateConstructor;
+
+  try {
+    return fn();
+  } finally {
+    globalThis.Date = RealDate;
+  }
+};
+
+describe("generator fakers", () => {
+  test("aren't affected by other generators or the global faker", () => {
+    const options = { referenceDate: "2024-01-01" };
+    const expected = [...createGenerator(1, options)];
+    const rows = createGenerator(1, options)[Symbol.iterator]();
+    const otherRows = createGenerator(2, options)[Symbol.iterator]();
+    const actual: unknown[] = [];
+
+    for (let next = rows.next(); !next.done; next = rows.next()) {
+      actual.push(next.value);
+      otherRows.next();
+      faker.seed(99);
+      faker.number.int();
+    }
+
+    expect(actual).toEqual(expected);
+  });
+
+  test("use the locale of the table over the generate option", () => {
+    const rows = [
+      ...generate({ users, tenants }, { seed: 1, locale: de }).refine({
+        refs: [],
+        tables: {
+          users: { count: 5, columns: { name: (ctx) => ctx.faker.person.fullName() } },
+          tenants: { count: 5, locale: ja, columns: { city: (ctx) => ctx.faker.location.city() } },
+        },
+      }),
+    ] as Array<{ name?: string; city?: string }>;
+    const japanese = /[぀-ヿ一-龯]/;
+
+    const names = rows.flatMap(({ name }) => (name === undefined ? [] : [name]));
+    const cities = rows.flatMap(({ city }) => (city === undefined ? [] : [city]));
+    expect(names).toHaveLength(5);
+    expect(cities).toHaveLength(5);
+    expect(names.some((name) => japanese.test(name))).toBe(false);
+    expect(cities.every((city) => japanese.test(city))).toBe(true);
+  });
+});
+
+describe("generated dates", () => {
+  // sqlite timestamps are generated as epoch milliseconds
+  const getJoinedAt = (rows: unknown[]) =>
+    (rows as Array<{ joinedAt?: number }>).flatMap(({ joinedAt }) =>
+      joinedAt === undefined ? [] : [joinedAt],
+    );
+
+  test("don't depend on the day with a fixed referenceDate", () => {
+    const generateOn = (now: string, options = {}) =>
+      withClock(now, () => getJoinedAt([...createGenerator(1, options)]));
+
+    expect(generateOn("2024-03-01T00:00:00Z")).not.toEqual(generateOn("2031-07-15T00:00:00Z"));
+    expect(generateOn("2024-03-01T00:00:00Z", { referenceDate: "2020-01-01" })).toEqual(
+      generateOn("2031-07-15T00:00:00Z", { referenceDate: "2020-01-01" }),
+    );
+  });
+
+  test("stay within dateWindow around referenceDate", () => {
+    const referenceDate = new Date("2020-01-01T00:00:00Z");
+    const rows = [
+      ...generate({ users }, { seed: 1, referenceDate, dateWindow: { past: 2 } }).refine({
+        refs: [],
+        tables: { users: { count: 200 } },
+      }),
+    ];
+    const joinedAt = getJoinedAt(rows);
+    const twoYearsMs = 2 * 365.25 * 24 * 60 * 60 * 1000;
+
+    expect(joinedAt).toHaveLength(200);
+    for (const time of joinedAt) {
+      expect(time).toBeGreaterThanOrEqual(referenceDate.getTime() - twoYearsMs);
+      expect(time).toBeLessThanOrEqual(referenceDate.getTime());
+    }
+  });
+});
+
+describe("literal rows", () => {
+  const members = sqliteTable("members", {
+    id: integer().primaryKey(),
+    name: text().notNull(),
+    role: text({ enum: ["owner", "admin", "guest"] })
+      .notNull()
+      .unique(),
+  });
+
+  test("come first in order and count toward count", () => {
+    const rows = [
+      ...generate({ members }, { seed: 1 }).refine({
+        refs: [],
+        tables: {
+          members: {
+            count: 3,
+            rows: [{ name: "first" }, { id: 7, name: "second" }],
+          },
+        },
+      }),
+    ] as Array<{ id: unknown; name: string }>;
+
+    expect(rows).toHaveLength(3);
+    expect(rows.map(({ name }) => name).slice(0, 2)).toEqual(["first", "second"]);
+    expect(rows[1]!.id).toBe(7);
+    expect(rows[2]!.name).not.toMatch(/^(first|second)$/);
+  });
+
+  test("claim their unique values before generated rows", () => {
+    for (let seed = 0; seed < 10; ++seed) {
+      const rows = [
+        ...generate({ members }, { seed }).refine({
+          refs: [],
+          tables: { members: { count: 3, rows: [{ role: "guest" }] } },
+        }),
+      ] as Array<{ role: string }>;
+
+      expect(rows[0]!.role).toBe("guest");
+      expect(rows.slice(1).map(({ role }) => role)).not.toContain("guest");
+    }
+  });
+
+  test("reject repeated unique values", () => {
+    expect(() => [
+      ...generate({ members }, { seed: 1 }).refine({
+        refs: [],
+        tables: { members: { count: 3, rows: [{ role: "admin" }, { role: "admin" }] } },
+      }),
+    ]).toThrow(`Literal rows of "members" repeat the value of unique column "role"`);
+  });
+});
+
+describe("seeding modes", () => {
+  const createTables = (withNickname: boolean) => ({
+    users: sqliteTable("users", {
+      id: integer().primaryKey(),
+      name: text().notNull(),
+      ...(withNickname ? { nickname: text().notNull() } : {}),
+      email: text().notNull(),
+    }),
+    tenants: sqliteTable("tenants", {
+      id: integer().primaryKey(),
+      city: text().notNull(),
+    }),
+  });
+
+  const generateRows = (
+    seeding: "sequential" | "per-column" | "per-row" | undefined,
+    { withNickname = false, userCount = 5 } = {},
+  ) => {
+    // default text values don't draw from faker, these columns do
+    const draw = (ctx: { faker: Faker }) => ctx.faker.string.alpha(8);
+    const rows = [
+      ...generate(createTables(withNickname), { seed: 1, seeding }).refine({
+        refs: [],
+        tables: {
+          users: {
+            count: userCount,
+            columns: { name: draw, email: draw, ...(withNickname ? { nickname: draw } : {}) },
+          },
+          tenants: { count: 5, columns: { city: draw } },
+        },
+      }),
+    ] as Array<{ _tag: string; name?: string; email?: string; city?: string }>;
+
+    return {
+      users: rows
+        .filter(({ _tag }) => _tag === "users")
+        .map(({ name, email }) => ({ name, email })),
+      tenants: rows.filter(({ _tag }) => _tag === "tenants").map(({ city }) => city),
+    };
+  };
+
+  test.each(["per-column", "per-row"] as const)(
+    "%s keeps other columns, rows and tables when a column is added or a count is bumped",
+    (seeding) => {
+      const base = generateRows(seeding);
+
+      const withNickname = generateRows(seeding, { withNickname: true });
+      expect(withNickname.tenants).toEqual(base.tenants);
+      if (seeding === "per-column") {
+        expect(withNickname.users).toEqual(base.users);
+      }
+
+      const moreUsers = generateRows(seeding, { userCount: 8 });
+      expect(moreUsers.users.slice(0, 5)).toEqual(base.users);
+      expect(moreUsers.tenants).toEqual(base.tenants);
+    },
+  );
+
+  test("sequential keeps the output of a single stream", () => {
+    const base = generateRows("sequential");
+
+    expect(generateRows(undefined)).toEqual(base);
+    // later tables draw from the stream after earlier ones
+    expect(generateRows("sequential", { userCount: 8 }).tenants).not.toEqual(base.tenants);
+  });
+});
@@ -1,5 +1,13 @@
 import { expect, test, describe } from "vitest";
-import { createGenerator } from "../src";
+import { Faker, en } from "@faker-js/faker";
+import { integer, pgTable, serial } from "drizzle-orm/pg-core";
+import {
+  ColumnNameGenerator,
+  createGenerator,
+  DuplicateChecker,
+  type ColumnValueReference,
+} from "../src";
+import { ForeignKeyGenerator } from "../src/pg-core";
 
 describe("generators logic", () => {
   test("should properly call generator chain", () => {
@@ -39,3 +47,88 @@ describe("generators logic", () => {
     expect(i).toEqual(3);
   });
 });
+
+describe("column name generator", () => {
+  const generator = new ColumnNameGenerator({ firstName: () => "Ada Lovelace", code: () => 7 });
+  const generate = (columnKey: string, columnDef: Record<string, unknown>, ctx = {}) =>
+    generator.generate({
+      columnKey,
+      columnDef: { name: columnKey, dataType: "string", ...columnDef },
+      faker: new Faker({ locale: en, seed: 1 }),
+      super: () => "fallback",
+      ...ctx,
+    } as any);
+
+  test("matches names regardless of case and separators, cut to the column length", () => {
+    expect(generate("first_name", { length: 3 })).toBe("Ada");
+    expect(generate("code", { dataType: "number int32" })).toBe(7);
+    expect(generate("code", {})).toBe("7");
+  });
+
+  test("leaves enums, unknown names and taken unique values to the chain", () => {
+    expect(generate("firstName", { enumValues: ["a"] })).toBe("fallback");
+    expect(generate("lastName", {})).toBe("fallback");
+    expect(generate("code", { dataType: "boolean" })).toBe("fallback");
+
+    const duplicateChecker = new DuplicateChecker();
+    duplicateChecker.add("Ada Lovelace");
+    expect(generate("firstName", {}, { duplicateChecker })).toBe("fallback");
+  });
+});
+
+describe("foreign key generator", () => {
+  const users = pgTable("users", { id: serial().primaryKey() });
+  const posts = pgTable("posts", {
+    authorId: integer()
+      .notNull()
+      .references(() => users.id),
+    editorId: integer().references(() => users.id),
+    reviewerId: integer()
+      .unique()
+      .references(() => users.id),
+  });
+  const generate = (
+    columnKey: "authorId" | "editorId" | "reviewerId",
+    counts: Record<string, number>,
+    ctx: object = {},
+  ) =>
+    new ForeignKeyGenerator().generate({
+      schema: { users, posts },
+      tableKey: "posts",
+      columnKey,
+      columnDef: posts[columnKey],
+      counts,
+      count: counts.posts,
+      self: {},
+      index: 0,
+      faker: new Faker({ locale: en, seed: 1 }),
+      super: () => 123,
+      ...ctx,
+    } as any);
+
+  test("leaves nullable references to tables without rows empty", () => {
+    expect(generate("editorId", {})).toBeNull();
+    expect(generate("editorId", { users: 0 })).toBeNull();
+  });
+
+  test("rejects not null references to tables without rows", () => {
+    expect(() => generate("authorId", { posts: 1 })).toThrow(
+      `Column "authorId" of "posts" references "users", which has no rows to reference`,
+    );
+  });
+
+  test("gives rows of unique columns a referenced row each", () => {
+    const duplicateChecker = new DuplicateChecker();
+    const generateReviewer = (index: number) =>
+      generate("reviewerId", { users: 3, posts: 4 }, { index, duplicateChecker });
+
+    expect(
+      [0, 1, 2].map(
+        (index) => (generateReviewer(index) as ColumnValueReference<number>).refRowIndex,
+      ),
+    ).toEqual([0, 1, 2]);
+    expect(() => generateReviewer(3)).toThrow(
+      `Unique column "reviewerId" of "posts" needs a "users" row per row, but "users" has 3 rows for 4`,
+    );
+  });
+});
@@ -0,0 +1,13 @@
+import { describe, expect, test } from "vitest";
+import { createHierarchy } from "../src/hierarchy";
+
+describe("createHierarchy", () => {
+  test("lays out levels with parents before their children", () => {
+    const tree = createHierarchy({ depth: 3, branching: 2, roots: 2 });
+
+    expect(tree.count).toBe(2 + 4 + 8);
+    expect([0, 1, 2, 5, 6, 13].map(tree.parentIndex)).toEqual([null, null, 0, 1, 2, 5]);
+    expect([0, 1, 2, 5, 6, 13].map(tree.level)).toEqual([0, 0, 1, 1, 2, 2]);
+    expect(() => tree.level(14)).toThrow();
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, expect, test } from "vitest";
+import { PassThrough } from "stream";
+import type { SQL } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql-proxy";
+import {
+  bigint,
+  datetime,
+  decimal,
+  int,
+  MySqlDialect,
+  mysqlEnum,
+  mysqlTable,
+  serial,
+  timestamp,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import { generate, reset, seed, toSql } from "../src/mysql-core";
+import { isColumnValueReference, isDatabaseDefaultPlaceholder } from "../src/placeholders";
+
+const users = mysqlTable("users", {
+  id: serial().primaryKey(),
+  email: varchar({ length: 12 }).notNull().unique(),
+  balance: decimal({ precision: 6, scale: 2 }),
+  role: mysqlEnum(["admin", "user"]).notNull(),
+  createdAt: datetime({ fsp: 2 }).notNull(),
+  seenAt: timestamp({ mode: "string" }),
+});
+
+const posts = mysqlTable("posts", {
+  id: bigint({ mode: "number" }).primaryKey().autoincrement(),
+  userId: bigint({ mode: "number", unsigned: true })
+    .notNull()
+    .references(() => users.id),
+  score: int(),
+});
+
+const schema = { users, posts };
+
+type Query = { sql: string; params: unknown[] };
+
+// the proxy driver hands every query to the callback, inserts get ids assigned from 1 like MySQL does
+const createDb = () => {
+  const queries: Query[] = [];
+  let nextId = 1;
+
+  const db = drizzle(async (sql, params) => {
+    queries.push({ sql, params });
+
+    if (sql.startsWith("insert")) {
+      const affectedRows = (sql.match(/\((default|\?)/g) ?? []).length;
+      const insertId = nextId;
+      nextId += affectedRows;
+      return { rows: [{ insertId, affectedRows }] as any };
+    }
+
+    return { rows: [] };
+  });
+
+  return { db, queries };
+};
+
+describe("generators", () => {
+  test("follow the column configs", () => {
+    const rows = Array.from(
+      generate(schema, { seed: 1 }).refine({
+        refs: [],
+        tables: { users: { count: 20 }, posts: { count: 20 } },
+      }),
+    ) as Record<string, any>[];
+    const userRows = rows.filter((row) => row._tag === "users");
+    const postRows = rows.filter((row) => row._tag === "posts");
+
+    for (const user of userRows) {
+      expect(isDatabaseDefaultPlaceholder(user.id)).toBe(true);
+      expect(user.email.length).toBeLessThanOrEqual(12);
+      expect(user.balance).toMatch(/^\d{1,4}\.\d{2}$/);
+      expect(["admin", "user"]).toContain(user.role);
+      // datetime(fsp: 2) stores hundredths of a second
+      expect(user.createdAt.getTime() % 10).toBe(0);
+      expect(user.seenAt).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+    }
+    expect(new Set(userRows.map((user) => user.email)).size).toBe(20);
+
+    for (const post of postRows) {
+      expect(isDatabaseDefaultPlaceholder(post.id)).toBe(true);
+      expect(isColumnValueReference(post.userId)).toBe(true);
+      expect(post.userId.refTableName).toBe("users");
+      expect(post.userId.refColumnName).toBe("id");
+    }
+  });
+});
+
+describe("seed", () => {
+  test("splits inserts at the parameter limit", async () => {
+    const { db, queries } = createDb();
+    const numbers = mysqlTable("numbers", { value: int().notNull() });
+
+    await seed(
+      db,
+      generate({ numbers }, { seed: 1 }).refine({
+        refs: [],
+        tables: { numbers: { count: 70000 } },
+      }),
+    );
+
+    const inserts = queries.filter((query) => query.sql.startsWith("insert"));
+    expect(inserts.map((query) => query.params.length)).toEqual([65535, 4465]);
+  });
+
+  test("refs point to ids returned by $returningId", async () => {
+    const { db, queries } = createDb();
+
+    await seed(
+      db,
+      generate(schema, { seed: 1 }).refine({
+        refs: [],
+        tables: { users: { count: 3 }, posts: { count: 10 } },
+      }),
+    );
+
+    const [userInsert, postInsert] = queries.filter((query) => query.sql.startsWith("insert"));
+    // database assigned ids are left out of the inserts
+    expect(userInsert!.sql).toMatch(/^insert into `users` \(`id`, `email`/);
+    expect(userInsert!.sql).toContain("(default, ?, ?, ?, ?, ?)");
+
+    // posts reference users 1 to 3, their userId is the first parameter of each row
+    const userIds = postInsert!.params.filter((_, i) => i % 2 === 0);
+    expect(userIds).toHaveLength(10);
+    for (const userId of userIds) {
+      expect([1, 2, 3]).toContain(userId);
+    }
+  });
+
+  test("rejects refs to auto increment columns that aren't the primary key", async () => {
+    const { db } = createDb();
+    const tickets = mysqlTable("tickets", {
+      code: varchar({ length: 8 }).primaryKey(),
+      number: int().notNull().autoincrement().unique(),
+    });
+    const comments = mysqlTable("comments", {
+      id: int().primaryKey(),
+      ticketNumber: int()
+        .notNull()
+        .references(() => tickets.number),
+    });
+
+    await expect(
+      Promise.resolve(
+        seed(
+          db,
+          generate({ tickets, comments }, { seed: 1 }).refine({
+            refs: [],
+            tables: { tickets: { count: 2 }, comments: { count: 2 } },
+          }),
+        ),
+      ),
+    ).rejects.toThrow(
+      `Column "number" of "tickets" is auto increment without being the primary key`,
+    );
+  });
+});
+
+describe("reset", () => {
+  test("truncates tables with foreign key checks disabled", async () => {
+    const dialect = new MySqlDialect();
+    const statements: string[] = [];
+    const tx = {
+      execute: async (query: SQL) => {
+        statements.push(dialect.sqlToQuery(query).sql);
+      },
+    };
+    const db = { transaction: async (fn: (tx: unknown) => Promise<void>) => fn(tx) };
+
+    await reset(db as any, schema);
+
+    expect(statements).toEqual([
+      "SET FOREIGN_KEY_CHECKS = 0",
+      "truncate `users`;",
+      "truncate `posts`;",
+      "SET FOREIGN_KEY_CHECKS = 1",
+    ]);
+  });
+
+  test("re-enables foreign key checks when a truncate fails", async () => {
+    const dialect = new MySqlDialect();
+    const statements: string[] = [];
+    const tx = {
+      execute: async (query: SQL) => {
+        const statement = dialect.sqlToQuery(query).sql;
+        statements.push(statement);
+        if (statement === "truncate `posts`;") throw new Error("lock wait timeout");
+      },
+    };
+    const db = { transaction: async (fn: (tx: unknown) => Promise<void>) => fn(tx) };
+
+    await expect(reset(db as any, schema)).rejects.toThrow("lock wait timeout");
+    expect(statements.at(-1)).toBe("SET FOREIGN_KEY_CHECKS = 1");
+  });
+});
+
+describe("toSql", () => {
+  test("quotes identifiers and escapes values", async () => {
+    const notes = mysqlTable("notes", {
+      id: int().primaryKey(),
+      body: varchar("we`ird", { length: 64 }).notNull(),
+      createdAt: datetime({ fsp: 3 }).notNull(),
+    });
+    const output = new PassThrough();
+    let script = "";
+    output.on("data", (chunk) => (script += chunk));
+
+    await toSql(
+      generate({ notes }, { seed: 1 }).refine({
+        refs: [],
+        tables: {
+          notes: {
+            count: 1,
+            columns: {
+              id: () => 1,
+              body: () => "it's a \\ path\0",
+              createdAt: () => new Date("2024-01-02T03:04:05.678Z"),
+            },
+          },
+        },
+      }),
+      { output },
+    );
+
+    expect(script).toBe(
+      "INSERT INTO `notes` (`id`, `we``ird`, `createdAt`) VALUES\n" +
+        "  (1, 'it''s a \\\\ path\\0', '2024-01-02 03:04:05.678');\n",
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "vitest";
+import type { Table } from "drizzle-orm";
+import { getTableConfig, integer, pgTable, text } from "drizzle-orm/pg-core";
+import { createRecordingDb } from "../src/recording-db";
+import { generate, seed } from "../src/pg-core";
+
+// ids are generated, the recording database doesn't assign any
+const countries = pgTable("countries", { id: integer().primaryKey(), name: text().notNull() });
+const flags = pgTable("flags", { id: integer().primaryKey(), name: text().notNull() });
+const cities = pgTable("cities", {
+  id: integer().primaryKey(),
+  countryId: integer()
+    .notNull()
+    .references(() => countries.id),
+});
+
+// a batch holds at most 32767 rows of two columns, countries are inserted in two batches
+const generator = generate({ countries, flags, cities }, { seed: 1 }).refine({
+  refs: [],
+  tables: { countries: { count: 40000 }, flags: { count: 1000 }, cities: { count: 1000 } },
+});
+
+type InsertedBatch = {
+  tableName: string;
+  rows: Record<string, unknown>[];
+  startedAt: number;
+  endedAt: number;
+};
+
+// inserts take longer the earlier the batch, `fail` rejects the matching insert
+const createDelayedDb = (fail?: (tableName: string, batchIndex: number) => boolean) => {
+  const batches: InsertedBatch[] = [];
+  let step = 0;
+  let running = 0;
+  let maxRunning = 0;
+
+  const db = createRecordingDb(
+    async (table: Table, rows: Record<string, unknown>[]) => {
+      const tableName = getTableConfig(table as any).name;
+      const batchIndex = batches.filter((batch) => batch.tableName === tableName).length;
+      const batch = { tableName, rows, startedAt: ++step, endedAt: Infinity };
+      batches.push(batch);
+
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, batches.length === 1 ? 50 : 5));
+      running--;
+
+      if (fail?.(tableName, batchIndex)) throw new Error(`Insert into ${tableName} failed`);
+      batch.endedAt = ++step;
+    },
+    (table) => getTableConfig(table as any).name,
+  );
+
+  return { db, batches, getMaxRunning: () => maxRunning };
+};
+
+describe("seed concurrency", () => {
+  test("inserts batches at once, behind the batches they reference", async () => {
+    const { db, batches, getMaxRunning } = createDelayedDb();
+
+    await seed(db, generator, { concurrency: 3 });
+
+    expect(getMaxRunning()).toBeGreaterThan(1);
+    const countryBatches = batches.filter(({ tableName }) => tableName === "countries");
+    const getCountryBatch = (countryId: unknown) =>
+      countryBatches.find(({ rows }) => rows.some(({ id }) => id === countryId))!;
+
+    expect(countryBatches).toHaveLength(2);
+    for (const cityBatch of batches.filter(({ tableName }) => tableName === "cities")) {
+      const referencedBatches = new Set(
+        cityBatch.rows.map(({ countryId }) => getCountryBatch(countryId)),
+      );
+      for (const countryBatch of referencedBatches) {
+        expect(countryBatch.endedAt).toBeLessThan(cityBatch.startedAt);
+      }
+    }
+  });
+
+  test("rejects when a flush fails", async () => {
+    const { db } = createDelayedDb(
+      (tableName, batchIndex) => tableName === "countries" && batchIndex === 1,
+    );
+
+    await expect(Promise.resolve(seed(db, generator, { concurrency: 3 }))).rejects.toThrow(
+      "Insert into countries failed",
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "vitest";
+import { Faker, en } from "@faker-js/faker";
+import { createRefProxy } from "../src/ref-proxy";
+
+const pick = (picker: (books: any) => any, index = 0, seed = 1) => {
+  const faker = new Faker({ locale: en, seed });
+  const ref = createRefProxy({
+    counts: { books: 10 },
+    getFaker: () => faker,
+    getIndex: () => index,
+  }) as any;
+  return picker(ref.books).id((value: unknown) => value).refRowIndex as number;
+};
+
+describe("createRefProxy", () => {
+  test("keeps indexing rows directly", () => {
+    expect(pick((books) => books[7])).toBe(7);
+  });
+
+  test("picks rows by weight, in turns and at random within the table", () => {
+    for (let seed = 0; seed < 20; ++seed) {
+      expect(pick((books) => books.weighted((i: number) => (i === 4 ? 1 : 0)), 0, seed)).toBe(4);
+      expect(pick((books) => books.random(), 0, seed)).toBeLessThan(10);
+      expect(pick((books) => books.zipf(), 0, seed)).toBeLessThan(10);
+    }
+    expect(pick((books) => books.roundRobin(), 23)).toBe(3);
+  });
+
+  test("rejects tables without rows", () => {
+    expect(() => pick((books) => books.weighted(() => 0))).toThrow();
+    expect(() =>
+      (
+        createRefProxy({
+          counts: {},
+          getFaker: () => new Faker({ locale: en }),
+          getIndex: () => 0,
+        }) as any
+      ).books.random(),
+    ).toThrow();
+  });
+});
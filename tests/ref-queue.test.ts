@@ -0,0 +1,45 @@
+import { describe, expect, test } from "vitest";
+import { columnValueReference } from "../src/placeholders";
+import { RefQueue, RowIndexSet } from "../src/ref-queue";
+
+const ref = (refTableName: string, refRowIndex: number) =>
+  columnValueReference({
+    refTableName,
+    refRowIndex,
+    refColumnName: "id",
+    transformFn: (value) => value,
+  });
+
+describe("RowIndexSet", () => {
+  test("grows past its initial size", () => {
+    const set = new RowIndexSet();
+    set.add(3);
+    set.add(100_000);
+
+    expect(set.has(3)).toBe(true);
+    expect(set.has(4)).toBe(false);
+    expect(set.has(100_000)).toBe(true);
+    expect(set.has(1_000_000)).toBe(false);
+  });
+});
+
+describe("RefQueue", () => {
+  test("releases rows once every referenced row is stored", () => {
+    const queue = new RefQueue();
+    queue.markStored("users", [0]);
+
+    const ready = { tableName: "posts", chunk: {}, rowIndex: 0, pendingRefs: [ref("users", 0)] };
+    const waiting = {
+      tableName: "posts",
+      chunk: {},
+      rowIndex: 1,
+      pendingRefs: [ref("users", 1), ref("posts", 0), ref("users", 1)],
+    };
+
+    expect(queue.add(ready)).toBe(false);
+    expect(queue.add(waiting)).toBe(true);
+    expect(queue.markStored("users", [1])).toEqual([]);
+    expect(queue.markStored("posts", [0])).toEqual([waiting]);
+    expect(queue.size).toBe(0);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "vitest";
+import { createLibsqlRefStore, createMemoryRefStore, type RefStore } from "../src/ref-store";
+
+describe.each([
+  ["memory", createMemoryRefStore],
+  ["libsql", () => createLibsqlRefStore()],
+] as [string, () => RefStore][])("%s ref store", (_, createRefStore) => {
+  test("looks up stored values", async () => {
+    const refStore = createRefStore();
+    await refStore.createTables(new Map([["users", new Set(["id", "createdAt"])]]));
+    await refStore.put("users", [
+      { rowIndex: 0, values: { id: 10n, createdAt: new Date(0) } },
+      { rowIndex: 2, values: { id: 12n, createdAt: null } },
+    ]);
+
+    const found = await refStore.lookup("users", [0, 1, 2]);
+
+    expect(Array.from(found.keys())).toEqual([0, 2]);
+    expect(found.get(0)).toEqual({ id: 10n, createdAt: new Date(0) });
+    expect(found.get(2)).toEqual({ id: 12n, createdAt: null });
+
+    await refStore.close();
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "vitest";
+import { mergeRefineConfigs } from "../src/refine-config";
+
+describe("mergeRefineConfigs", () => {
+  test("layers tables and columns over the base config", () => {
+    const email = () => "email";
+    const name = () => "name";
+    const otherName = () => "other name";
+    const base = {
+      refs: ["users.id", "users.email"],
+      tables: {
+        users: { count: 10, columnOrder: ["email"], columns: { email, name } },
+        posts: { count: 5 },
+      } as Record<string, object>,
+    };
+    const layer = {
+      refs: ["users.id", "posts.id"],
+      tables: {
+        users: { count: 20, columns: { name: otherName } },
+        comments: { count: 1 },
+      } as Record<string, object>,
+    };
+
+    expect(mergeRefineConfigs(base, layer)).toEqual({
+      refs: ["users.id", "users.email", "posts.id"],
+      existing: undefined,
+      tables: {
+        users: { count: 20, columnOrder: ["email"], columns: { email, name: otherName } },
+        posts: { count: 5 },
+        comments: { count: 1 },
+      },
+    });
+    expect(base.tables.users).toEqual({
+      count: 10,
+      columnOrder: ["email"],
+      columns: { email, name },
+    });
+  });
+});
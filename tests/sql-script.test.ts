@@ -0,0 +1,76 @@
+import { PassThrough } from "stream";
+import { describe, expect, test } from "vitest";
+import { integer, pgTable, primaryKey, serial, text, uuid, varchar } from "drizzle-orm/pg-core";
+import { generate, toSql } from "../src/pg-core";
+
+const users = pgTable("users", {
+  id: serial().primaryKey(),
+  email: varchar({ length: 32 }).notNull().unique(),
+});
+
+const teams = pgTable("teams", {
+  id: uuid().primaryKey().defaultRandom(),
+  ownerId: integer()
+    .notNull()
+    .references(() => users.id),
+  name: text().notNull(),
+});
+
+const members = pgTable(
+  "members",
+  {
+    userId: integer()
+      .notNull()
+      .references(() => users.id),
+    teamId: uuid()
+      .notNull()
+      .references(() => teams.id),
+  },
+  (t) => [primaryKey({ columns: [t.userId, t.teamId] })],
+);
+
+const renderScript = async () => {
+  const output = new PassThrough();
+  const chunks: string[] = [];
+  output.on("data", (chunk) => chunks.push(String(chunk)));
+
+  const generator = generate({ users, teams, members }, { seed: 1 }).refine({
+    refs: [],
+    tables: { users: { count: 3 }, teams: { count: 2 }, members: { count: 4 } },
+  });
+  await toSql(generator, { output });
+
+  return chunks.join("");
+};
+
+describe("toSql", () => {
+  test("inserts database assigned keys explicitly and resyncs sequences", async () => {
+    const script = await renderScript();
+
+    expect(script).toContain(`INSERT INTO "public"."users" ("id", "email") VALUES\n  (1, `);
+    expect(script).toContain(`(3, `);
+    expect(script).toContain(`SELECT setval(pg_get_serial_sequence('"public"."users"', 'id'), 3);`);
+    expect(script).not.toContain('pg_get_serial_sequence(\'"public"."teams"\'');
+
+    const teamIds = Array.from(
+      script.matchAll(/\('([0-9a-f-]{36})', [123], /g),
+      ([, teamId]) => teamId,
+    );
+    expect(teamIds).toHaveLength(2);
+    for (const teamId of teamIds) {
+      expect(teamId).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      );
+    }
+    const memberTeamIds = Array.from(
+      script.matchAll(/\([123], '([0-9a-f-]{36})'\)/g),
+      ([, teamId]) => teamId,
+    );
+    expect(memberTeamIds).toHaveLength(4);
+    for (const teamId of memberTeamIds) {
+      expect(teamIds).toContain(teamId);
+    }
+
+    expect(await renderScript()).toBe(script);
+  });
+});
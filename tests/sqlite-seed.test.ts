@@ -0,0 +1,549 @@
+import { PassThrough } from "stream";
+import { describe, expect, test } from "vitest";
+import { createClient } from "@libsql/client";
+import { ne, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/libsql";
+import { integer, sqliteTable, text, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
+import { generate, seed, toSql } from "../src/sqlite-core";
+
+const authors = sqliteTable("authors", {
+  id: integer().primaryKey(),
+  name: text().notNull(),
+});
+
+const books = sqliteTable("books", {
+  id: integer().primaryKey(),
+  authorId: integer()
+    .notNull()
+    .references(() => authors.id),
+  title: text().notNull(),
+});
+
+const reviews = sqliteTable("reviews", {
+  id: integer().primaryKey(),
+  bookId: integer()
+    .notNull()
+    .references(() => books.id),
+  body: text().notNull(),
+});
+
+const schema = { authors, books, reviews };
+
+// shared cache keeps the in-memory database alive for the connections of transactions,
+// tests run one at a time and start from fresh tables
+const createDb = async () => {
+  const client = createClient({ url: "file::memory:?cache=shared" });
+  const db = drizzle({ client });
+
+  for (const tableName of ["reviews", "books", "authors"]) {
+    await db.run(sql.raw(`drop table if exists ${tableName}`));
+  }
+  await db.run(sql`create table authors (id integer primary key, name text not null)`);
+  await db.run(
+    sql`create table books (id integer primary key, authorId integer not null references authors(id), title text not null)`,
+  );
+  await db.run(
+    sql`create table reviews (id integer primary key, bookId integer not null references books(id), body text not null)`,
+  );
+
+  const countRows = async () => ({
+    authors: await db.$count(authors),
+    books: await db.$count(books),
+    reviews: await db.$count(reviews),
+  });
+
+  return { db, client, countRows };
+};
+
+describe("seed transactions", () => {
+  // the last review breaks the not null constraint, failing the third table
+  const failingGenerator = generate(schema, { seed: 1 }).refine({
+    refs: [],
+    tables: {
+      authors: { count: 3 },
+      books: { count: 5 },
+      reviews: {
+        count: 10,
+        columns: { body: (ctx) => (ctx.index === 9 ? (null as any) : "body") },
+      },
+    },
+  });
+
+  test("rolls every table back with a single transaction", async () => {
+    const { db, client, countRows } = await createDb();
+
+    await expect(
+      Promise.resolve(seed(db, failingGenerator, { transaction: true })),
+    ).rejects.toThrow();
+    expect(await countRows()).toEqual({ authors: 0, books: 0, reviews: 0 });
+    client.close();
+  });
+
+  test("keeps tables committed before the failing one with per-table transactions", async () => {
+    const { db, client, countRows } = await createDb();
+
+    await expect(
+      Promise.resolve(seed(db, failingGenerator, { transaction: "per-table" })),
+    ).rejects.toThrow();
+    expect(await countRows()).toEqual({ authors: 3, books: 5, reviews: 0 });
+    client.close();
+  });
+});
+
+describe("seed progress", () => {
+  test("reports tables in order and sums them up in the summary", async () => {
+    const { db, client } = await createDb();
+    const events: string[] = [];
+    const batchCounts: Record<string, number> = {};
+    let lastProgress = { seededCount: 0, count: 0 };
+
+    const summary = await seed(
+      db,
+      generate(schema, { seed: 1 }).refine({
+        refs: [],
+        tables: {
+          authors: { count: 3 },
+          books: { count: 500 },
+          reviews: { count: 700 },
+        },
+      }),
+      {
+        onTableStart: ({ tableName }) => events.push(`start ${tableName}`),
+        onBatchFlushed: ({ tableName, batchRowCount, seededCount, count }) => {
+          events.push(`batch ${tableName}`);
+          batchCounts[tableName] = (batchCounts[tableName] ?? 0) + 1;
+          expect(batchRowCount).toBeGreaterThan(0);
+          expect(seededCount).toBeLessThanOrEqual(count);
+        },
+        onProgress: (progress) => (lastProgress = progress),
+        onTableDone: ({ tableName, seededCount, count }) => {
+          events.push(`done ${tableName}`);
+          expect(seededCount).toBe(count);
+        },
+      },
+    );
+
+    for (const tableName of ["authors", "books", "reviews"]) {
+      const tableEvents = events.filter((event) => event.endsWith(` ${tableName}`));
+      expect(tableEvents[0]).toBe(`start ${tableName}`);
+      expect(tableEvents.at(-1)).toBe(`done ${tableName}`);
+      expect(tableEvents.filter((event) => event.startsWith("done"))).toHaveLength(1);
+      expect(summary.tables[tableName]!.batchCount).toBe(batchCounts[tableName]);
+    }
+
+    expect(summary.tables.books!.batchCount).toBeGreaterThan(1);
+    expect(summary.tables.reviews!.rowCount).toBe(await db.$count(reviews));
+    expect(summary.rowCount).toBe(1203);
+    expect(lastProgress).toMatchObject({ seededCount: summary.rowCount, count: summary.rowCount });
+    client.close();
+  });
+});
+
+describe("insert hooks", () => {
+  const createHookedGenerator = (hooks: object) =>
+    generate(schema, { seed: 1 }).refine({
+      refs: [],
+      tables: {
+        authors: { count: 3, columns: { name: (ctx) => `author ${ctx.index}` }, hooks },
+        books: { count: 2 },
+        reviews: { count: 0 },
+      },
+    });
+
+  test("inserts rows changed in place by beforeInsert", async () => {
+    const { db, client } = await createDb();
+
+    await seed(
+      db,
+      createHookedGenerator({
+        beforeInsert: (rows: Array<{ name: string }>) => {
+          for (const row of rows) row.name = row.name.toUpperCase();
+        },
+      }),
+    );
+
+    expect(await db.select({ name: authors.name }).from(authors).orderBy(authors.id)).toEqual([
+      { name: "AUTHOR 0" },
+      { name: "AUTHOR 1" },
+      { name: "AUTHOR 2" },
+    ]);
+    client.close();
+  });
+
+  test("rejects beforeInsert hooks changing the number of rows", async () => {
+    const { db, client } = await createDb();
+
+    await expect(
+      Promise.resolve(
+        seed(db, createHookedGenerator({ beforeInsert: (rows: unknown[]) => void rows.pop() })),
+      ),
+    ).rejects.toThrow(`beforeInsert hook of "authors" changed the number of rows`);
+    client.close();
+  });
+
+  test("passes keys read back from the database to afterInsert", async () => {
+    const { db, client } = await createDb();
+    const insertedRows: Array<{ id: number; name: string }> = [];
+
+    await seed(
+      db,
+      createHookedGenerator({
+        afterInsert: (rows: Array<{ id: number; name: string }>) => void insertedRows.push(...rows),
+      }),
+    );
+
+    expect(insertedRows).toEqual(await db.select().from(authors).orderBy(authors.id));
+    expect(insertedRows.every(({ id }) => typeof id === "number")).toBe(true);
+    client.close();
+  });
+});
+
+describe("fan-out counts", () => {
+  test("generates rows under the parent row they're counted per", async () => {
+    const { db, client } = await createDb();
+
+    await seed(
+      db,
+      generate(schema, { seed: 1 }).refine({
+        refs: ["authors.name"],
+        tables: {
+          authors: { count: 3 },
+          books: {
+            count: { per: "authors", distribution: ({ index }) => index + 1 },
+            columns: {
+              title: (ctx) => {
+                const parentIndex = ctx.parent!.index;
+                return ctx.parent!.ref.name!((name: string) => `${name} #${parentIndex}`);
+              },
+            },
+          },
+          reviews: { count: 0 },
+        },
+      }),
+    );
+
+    const storedAuthors = await db.select().from(authors).orderBy(authors.id);
+    const storedBooks = await db.select().from(books).orderBy(books.id);
+
+    expect(storedBooks).toHaveLength(6);
+    storedAuthors.forEach((author, authorIndex) => {
+      const authorBooks = storedBooks.filter((book) => book.authorId === author.id);
+      expect(authorBooks).toHaveLength(authorIndex + 1);
+      for (const book of authorBooks) {
+        expect(book.title).toBe(`${author.name} #${authorIndex}`);
+      }
+    });
+    client.close();
+  });
+});
+
+describe("cycles", () => {
+  const users = sqliteTable("users", {
+    id: integer().primaryKey(),
+    currentTeamId: integer().references((): AnySQLiteColumn => teams.id),
+  });
+  const teams = sqliteTable("teams", {
+    id: integer().primaryKey(),
+    ownerId: integer()
+      .notNull()
+      .references(() => users.id),
+  });
+
+  test("fills nullable cyclic foreign keys with updates once referenced rows are stored", async () => {
+    const { db, client } = await createDb();
+    await db.run(sql`drop table if exists teams`);
+    await db.run(sql`drop table if exists users`);
+    await db.run(sql`create table users (id integer primary key, currentTeamId integer)`);
+    await db.run(
+      sql`create table teams (id integer primary key, ownerId integer not null references users(id))`,
+    );
+
+    await seed(
+      db,
+      generate({ users, teams }, { seed: 1 }).refine({
+        refs: [],
+        tables: { users: { count: 10 }, teams: { count: 4 } },
+      }),
+    );
+
+    const teamIds = (await db.select({ id: teams.id }).from(teams)).map(({ id }) => id);
+    const storedUsers = await db.select().from(users);
+    const userIds = storedUsers.map(({ id }) => id);
+
+    expect(storedUsers).toHaveLength(10);
+    for (const { currentTeamId } of storedUsers) {
+      expect(teamIds).toContain(currentTeamId);
+    }
+    for (const { ownerId } of await db.select({ ownerId: teams.ownerId }).from(teams)) {
+      expect(userIds).toContain(ownerId);
+    }
+    client.close();
+  });
+});
+
+describe("refs", () => {
+  test("point to keys assigned by the database", async () => {
+    const { db, client } = await createDb();
+    // generated authors get ids after the stored one, not the row indices
+    await db.insert(authors).values({ id: 1000, name: "stored" });
+
+    await seed(
+      db,
+      generate(schema, { seed: 1 }).refine({
+        refs: [],
+        tables: { authors: { count: 3 }, books: { count: 10 }, reviews: { count: 10 } },
+      }),
+    );
+
+    const authorIds = (await db.select({ id: authors.id }).from(authors)).map(({ id }) => id);
+    const bookIds = (await db.select({ id: books.id }).from(books)).map(({ id }) => id);
+    expect(authorIds).toEqual([1000, 1001, 1002, 1003]);
+
+    for (const { authorId } of await db.select({ authorId: books.authorId }).from(books)) {
+      expect([1001, 1002, 1003]).toContain(authorId);
+    }
+    for (const { bookId } of await db.select({ bookId: reviews.bookId }).from(reviews)) {
+      expect(bookIds).toContain(bookId);
+    }
+    client.close();
+  });
+});
+
+describe("existing rows", () => {
+  const categories = sqliteTable("categories", { slug: text().primaryKey() });
+  const items = sqliteTable("items", {
+    id: integer().primaryKey(),
+    categorySlug: text()
+      .notNull()
+      .references(() => categories.slug),
+  });
+
+  // categories are inserted in the given order, their rowids differ from the key order
+  const createCategoryDb = async (slugs: string[]) => {
+    const client = createClient({ url: "file::memory:?cache=shared" });
+    const db = drizzle({ client });
+
+    await db.run(sql`drop table if exists items`);
+    await db.run(sql`drop table if exists categories`);
+    await db.run(sql`create table categories (slug text primary key)`);
+    await db.run(sql`create table items (id integer primary key, categorySlug text not null)`);
+    await db.insert(categories).values(slugs.map((slug) => ({ slug })));
+
+    return { db, client };
+  };
+
+  const itemsGenerator = generate({ categories, items }, { seed: 1 }).refine({
+    refs: [],
+    existing: { categories: {} },
+    tables: { items: { count: 12 } },
+  });
+
+  test("references existing rows in primary key order", async () => {
+    const seedItems = async (slugs: string[]) => {
+      const { db, client } = await createCategoryDb(slugs);
+      await seed(db, itemsGenerator);
+      const rows = await db.select().from(items).orderBy(items.id);
+      client.close();
+      return rows;
+    };
+
+    const rows = await seedItems(["c", "a", "b"]);
+    expect(new Set(rows.map(({ categorySlug }) => categorySlug))).toEqual(new Set(["a", "b", "c"]));
+    expect(await seedItems(["b", "c", "a"])).toEqual(rows);
+  });
+
+  test("only references existing rows matching where", async () => {
+    const { db, client } = await createDb();
+    await db.insert(authors).values([
+      { id: 10, name: "a" },
+      { id: 20, name: "b" },
+      { id: 30, name: "c" },
+    ]);
+
+    await seed(
+      db,
+      generate(schema, { seed: 1 }).refine({
+        refs: [],
+        existing: { authors: { where: ne(authors.name, "b") } },
+        tables: { books: { count: 8 }, reviews: { count: 0 } },
+      }),
+    );
+
+    const authorIds = (await db.select({ authorId: books.authorId }).from(books)).map(
+      ({ authorId }) => authorId,
+    );
+    expect(authorIds).toHaveLength(8);
+    expect(new Set(authorIds)).toEqual(new Set([10, 30]));
+    expect(await db.$count(authors)).toBe(3);
+    client.close();
+  });
+
+  test("rejects existing tables nothing references", async () => {
+    const { db, client } = await createDb();
+
+    await expect(
+      Promise.resolve(
+        seed(
+          db,
+          generate(schema, { seed: 1 }).refine({ refs: [], existing: { reviews: {} }, tables: {} }),
+        ),
+      ),
+    ).rejects.toThrow(
+      `Existing rows of "reviews" are never referenced, add its columns to refs or drop it from existing`,
+    );
+    client.close();
+  });
+});
+
+describe("literal rows", () => {
+  test("are referenced by their index through ctx.ref", async () => {
+    const { db, client } = await createDb();
+
+    await seed(
+      db,
+      generate(schema, { seed: 1 }).refine({
+        refs: ["authors.name"],
+        tables: {
+          authors: { count: 3, rows: [{ name: "first" }, { id: 500, name: "second" }] },
+          books: {
+            count: 4,
+            columns: {
+              authorId: (ctx) => ctx.ref.authors![1]!.id!((id: number) => id),
+              title: (ctx) => ctx.ref.authors![0]!.name!((name: string) => `${name} book`),
+            },
+          },
+          reviews: { count: 0 },
+        },
+      }),
+    );
+
+    const storedBooks = await db.select().from(books);
+    expect(storedBooks).toHaveLength(4);
+    for (const book of storedBooks) {
+      expect(book).toMatchObject({ authorId: 500, title: "first book" });
+    }
+    client.close();
+  });
+});
+
+describe("seed conflicts", () => {
+  const people = sqliteTable("people", {
+    id: integer().primaryKey(),
+    email: text().notNull().unique(),
+    name: text().notNull(),
+  });
+  const posts = sqliteTable("posts", {
+    id: integer().primaryKey(),
+    personId: integer()
+      .notNull()
+      .references(() => people.id),
+  });
+
+  const createPeopleDb = async () => {
+    const client = createClient({ url: "file::memory:?cache=shared" });
+    const db = drizzle({ client });
+
+    await db.run(sql`drop table if exists posts`);
+    await db.run(sql`drop table if exists people`);
+    await db.run(
+      sql`create table people (id integer primary key, email text not null unique, name text not null)`,
+    );
+    await db.run(sql`create table posts (id integer primary key, personId integer not null)`);
+    await db.run(
+      sql`insert into people (id, email, name) values (100, 'person0@example.com', 'stored')`,
+    );
+
+    const getPeople = () =>
+      db.all<{ id: number; email: string; name: string }>(
+        sql`select id, email, name from people order by email`,
+      );
+    const getPostPersonIds = async () =>
+      (await db.all<{ personId: number }>(sql`select personId from posts order by id`)).map(
+        ({ personId }) => personId,
+      );
+
+    return { db, client, getPeople, getPostPersonIds };
+  };
+
+  // a post per person, the first person conflicts with the stored one
+  const createGenerator = (
+    onConflict?: "skip" | "update" | { action: "update"; target: ["email"] },
+  ) =>
+    generate({ people, posts }, { seed: 1 }).refine({
+      refs: [],
+      tables: {
+        people: {
+          count: 3,
+          onConflict,
+          columns: {
+            email: (ctx) => `person${ctx.index}@example.com`,
+            name: () => "generated",
+          },
+        },
+        posts: { count: { per: "people", min: 1, max: 1 } },
+      },
+    });
+
+  test("skips conflicting rows, refs point to the stored keys", async () => {
+    const { db, client, getPeople, getPostPersonIds } = await createPeopleDb();
+
+    await seed(db, createGenerator(), { onConflict: "skip" });
+    const stored = await getPeople();
+
+    expect(stored).toHaveLength(3);
+    expect(stored[0]).toEqual({ id: 100, email: "person0@example.com", name: "stored" });
+    expect(await getPostPersonIds()).toEqual(stored.map(({ id }) => id));
+    client.close();
+  });
+
+  test("updates conflicting rows, keeping their primary keys", async () => {
+    const { db, client, getPeople, getPostPersonIds } = await createPeopleDb();
+
+    await seed(db, createGenerator(), { onConflict: "update" });
+    const stored = await getPeople();
+
+    expect(stored[0]).toEqual({ id: 100, email: "person0@example.com", name: "generated" });
+    expect(await getPostPersonIds()).toEqual(stored.map(({ id }) => id));
+    client.close();
+  });
+
+  test("applies the per-table strategy and explicit targets over the seed option", async () => {
+    const { db, client, getPeople } = await createPeopleDb();
+
+    await expect(Promise.resolve(seed(db, createGenerator()))).rejects.toThrow();
+    await seed(db, createGenerator({ action: "update", target: ["email"] }), {
+      onConflict: "error",
+    });
+
+    expect((await getPeople())[0]).toEqual({
+      id: 100,
+      email: "person0@example.com",
+      name: "generated",
+    });
+    client.close();
+  });
+
+  test("renders the conflict clause in SQL scripts", async () => {
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on("data", (chunk) => chunks.push(String(chunk)));
+
+    await toSql(
+      generate({ people }, { seed: 1 }).refine({
+        refs: [],
+        tables: {
+          people: {
+            count: 3,
+            onConflict: { action: "update", target: ["email"] },
+            columns: { name: () => "generated" },
+          },
+        },
+      }),
+      { output },
+    );
+
+    expect(chunks.join("")).toContain(
+      `ON CONFLICT ("email") DO UPDATE SET "name" = excluded."name";`,
+    );
+  });
+});
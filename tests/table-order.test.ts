@@ -0,0 +1,52 @@
+import { expect, test, describe } from "vitest";
+import { sortTablesByDependencies } from "../src";
+
+describe("table order inference", () => {
+  test("should place referenced tables first and keep schema order otherwise", () => {
+    const order = sortTablesByDependencies(
+      new Map([
+        ["reviews", new Set(["books", "users"])],
+        ["books", new Set(["authors"])],
+        ["users", new Set<string>()],
+        ["authors", new Set<string>()],
+      ]),
+    );
+
+    expect(order).toEqual(["users", "authors", "books", "reviews"]);
+  });
+
+  test("should ignore self references", () => {
+    const order = sortTablesByDependencies(
+      new Map([
+        ["categories", new Set(["categories"])],
+        ["posts", new Set(["categories"])],
+      ]),
+    );
+
+    expect(order).toEqual(["categories", "posts"]);
+  });
+
+  test("should list the cycle when tables reference each other", () => {
+    expect(() =>
+      sortTablesByDependencies(
+        new Map([
+          ["countries", new Set<string>()],
+          ["users", new Set(["teams"])],
+          ["teams", new Set(["users"])],
+        ]),
+      ),
+    ).toThrow("users → teams → users");
+  });
+
+  test("should break cycles on nullable foreign keys", () => {
+    const order = sortTablesByDependencies(
+      new Map([
+        ["teams", new Set(["users"])],
+        ["users", new Set(["teams"])],
+      ]),
+      new Map([["users", new Set(["teams"])]]),
+    );
+
+    expect(order).toEqual(["users", "teams"]);
+  });
+});
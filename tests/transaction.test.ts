@@ -0,0 +1,42 @@
+import { describe, expect, test } from "vitest";
+import { openTransaction } from "../src/transaction";
+
+// mimics drizzle's callback-style transactions, committing unless the callback throws
+const createDb = (events: string[], beginError?: Error) => ({
+  transaction: async <T>(transaction: (tx: string) => Promise<T>) => {
+    if (beginError) throw beginError;
+    events.push("begin");
+    try {
+      const result = await transaction("tx");
+      events.push("commit");
+      return result;
+    } catch (error) {
+      events.push("rollback");
+      throw error;
+    }
+  },
+});
+
+describe("openTransaction", () => {
+  test("keeps the transaction open until commit", async () => {
+    const events: string[] = [];
+    const transaction = await openTransaction(createDb(events));
+
+    expect(transaction.tx).toBe("tx");
+    expect(events).toEqual(["begin"]);
+    await transaction.commit();
+    expect(events).toEqual(["begin", "commit"]);
+  });
+
+  test("rolls back without rejecting", async () => {
+    const events: string[] = [];
+    const transaction = await openTransaction(createDb(events));
+
+    await transaction.rollback();
+    expect(events).toEqual(["begin", "rollback"]);
+  });
+
+  test("rejects when the transaction fails to begin", async () => {
+    await expect(openTransaction(createDb([], new Error("Busy")))).rejects.toThrow("Busy");
+  });
+});
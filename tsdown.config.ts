@@ -1,7 +1,12 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
-  entry: ["./src/index.ts", "./src/pg-core/index.ts", "./src/sqlite-core/index.ts"],
+  entry: [
+    "./src/index.ts",
+    "./src/pg-core/index.ts",
+    "./src/sqlite-core/index.ts",
+    "./src/mysql-core/index.ts",
+  ],
   format: "esm",
   dts: { resolve: false },
   clean: true,